@@ -0,0 +1,209 @@
+import { EventEmitter } from 'eventemitter3';
+import { AutoscaleDecision, AutoscaleMetrics, AutoscaleOptions } from './types';
+import { Queue } from './Queue';
+
+// The parts of QueueManager the autoscaler watches and adjusts
+export interface AutoscaleTarget {
+  getQueues(): Queue[];
+  getPoolConcurrency(): number;
+  updateQueueCount(newCount: number): void;
+  updatePoolConcurrency(newConcurrency: number): void;
+  rebalanceQueues(): void;
+}
+
+/**
+ * Periodically measures the backlog, the wait of the oldest pending job and
+ * the share of busy slots across the pool queues, and adds or removes
+ * capacity within the configured bounds.
+ *
+ * Scaling up raises the concurrency per queue first and then adds queues,
+ * which take over part of the backlog; scaling down removes queues first.
+ * Named queues are neither measured nor scaled. Capacity is only added while
+ * most slots are busy, since a backlog next to idle slots (e.g. held back by
+ * rate limits or concurrency groups) isn't helped by more of them. Cooldowns
+ * keep it from flapping.
+ *
+ * Emits 'autoscale:up' and 'autoscale:down' for every change, and
+ * 'autoscale:held' when scaling up is called for but a cooldown or the bounds
+ * prevent it, or scaling down is called for during a cooldown.
+ */
+export class Autoscaler extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private lastScaledAt = 0;
+  private readonly options: Required<AutoscaleOptions>;
+
+  constructor(private readonly target: AutoscaleTarget, options: AutoscaleOptions = {}) {
+    super();
+    const concurrency = target.getPoolConcurrency();
+    this.options = {
+      minQueues: 1,
+      maxQueues: target.getQueues().length,
+      minConcurrency: concurrency,
+      maxConcurrency: concurrency,
+      step: 1,
+      intervalMs: 5000,
+      scaleUpBacklog: 1,
+      scaleUpWaitMs: 10000,
+      scaleUpUtilization: 0.8,
+      scaleDownUtilization: 0.3,
+      scaleUpCooldownMs: 30000,
+      scaleDownCooldownMs: 120000,
+      ...options
+    };
+
+    const { minQueues, maxQueues, minConcurrency, maxConcurrency, step, intervalMs } = this.options;
+    if (!(minQueues >= 1) || !(maxQueues >= minQueues)) {
+      throw new Error('Autoscale queue bounds must satisfy 1 <= minQueues <= maxQueues');
+    }
+    if (!(minConcurrency >= 1) || !(maxConcurrency >= minConcurrency)) {
+      throw new Error('Autoscale concurrency bounds must satisfy 1 <= minConcurrency <= maxConcurrency');
+    }
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error('Autoscale step must be a positive integer');
+    }
+    if (!(intervalMs > 0)) {
+      throw new Error('Autoscale intervalMs must be greater than 0');
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.evaluate(), this.options.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Measures the pool queues and scales them if called for. Runs every
+   * `intervalMs` once started, and can be called directly.
+   *
+   * @returns The decision, if scaling was called for
+   */
+  evaluate(): AutoscaleDecision | undefined {
+    const metrics = this.measure();
+    const { scaleUpBacklog, scaleUpWaitMs, scaleUpUtilization, scaleDownUtilization } = this.options;
+
+    const backlog = metrics.pending / metrics.capacity;
+    if (metrics.pending > 0 && metrics.utilization >= scaleUpUtilization) {
+      if (backlog >= scaleUpBacklog) {
+        return this.scaleUp(metrics, `${metrics.pending} jobs waiting for ${metrics.capacity} slots`);
+      }
+      if (metrics.oldestWaitMs >= scaleUpWaitMs) {
+        return this.scaleUp(metrics, `oldest pending job waited ${metrics.oldestWaitMs}ms`);
+      }
+    }
+
+    if (metrics.pending === 0 && metrics.utilization <= scaleDownUtilization) {
+      return this.scaleDown(metrics, `no backlog and ${formatPercent(metrics.utilization)} of slots busy`);
+    }
+    return undefined;
+  }
+
+  measure(): AutoscaleMetrics {
+    const queues = this.target.getQueues();
+    const now = Date.now();
+
+    let pending = 0;
+    let running = 0;
+    let capacity = 0;
+    let oldestWaitMs = 0;
+    for (const queue of queues) {
+      pending += queue.length;
+      running += queue.getRunningCount();
+      capacity += queue.getMaxConcurrency();
+      for (const job of queue.getPendingJobs()) {
+        oldestWaitMs = Math.max(oldestWaitMs, now - (job.enqueuedAt ?? job.createdAt));
+      }
+    }
+
+    return {
+      queueCount: queues.length,
+      concurrencyPerQueue: this.target.getPoolConcurrency(),
+      pending,
+      running,
+      capacity,
+      utilization: capacity > 0 ? running / capacity : 0,
+      oldestWaitMs
+    };
+  }
+
+  private scaleUp(metrics: AutoscaleMetrics, reason: string): AutoscaleDecision {
+    const { maxQueues, maxConcurrency, step, scaleUpCooldownMs } = this.options;
+    let { queueCount, concurrencyPerQueue } = metrics;
+
+    const cooldownLeft = this.lastScaledAt + scaleUpCooldownMs - Date.now();
+    if (cooldownLeft > 0) {
+      return this.hold('up', metrics, `${reason}, but cooling down for another ${cooldownLeft}ms`);
+    }
+
+    if (concurrencyPerQueue < maxConcurrency) {
+      concurrencyPerQueue = Math.min(concurrencyPerQueue + step, maxConcurrency);
+    } else if (queueCount < maxQueues) {
+      queueCount = Math.min(queueCount + step, maxQueues);
+    } else {
+      return this.hold('up', metrics, `${reason}, but already at ${maxQueues} queues of ${maxConcurrency}`);
+    }
+
+    return this.apply({ direction: 'up', reason, metrics, queueCount, concurrencyPerQueue });
+  }
+
+  private scaleDown(metrics: AutoscaleMetrics, reason: string): AutoscaleDecision | undefined {
+    const { minQueues, minConcurrency, step, scaleDownCooldownMs } = this.options;
+    let { queueCount, concurrencyPerQueue } = metrics;
+
+    // Idling at the minimum is the normal state, not worth an event
+    if (queueCount <= minQueues && concurrencyPerQueue <= minConcurrency) return undefined;
+
+    const cooldownLeft = this.lastScaledAt + scaleDownCooldownMs - Date.now();
+    if (cooldownLeft > 0) {
+      return this.hold('down', metrics, `${reason}, but cooling down for another ${cooldownLeft}ms`);
+    }
+
+    if (queueCount > minQueues) {
+      queueCount = Math.max(queueCount - step, minQueues);
+    } else {
+      concurrencyPerQueue = Math.max(concurrencyPerQueue - step, minConcurrency);
+    }
+
+    return this.apply({ direction: 'down', reason, metrics, queueCount, concurrencyPerQueue });
+  }
+
+  private apply(decision: AutoscaleDecision): AutoscaleDecision {
+    const { metrics } = decision;
+    if (decision.concurrencyPerQueue !== metrics.concurrencyPerQueue) {
+      this.target.updatePoolConcurrency(decision.concurrencyPerQueue);
+    }
+    if (decision.queueCount !== metrics.queueCount) {
+      this.target.updateQueueCount(decision.queueCount);
+    }
+    // New queues only get new jobs otherwise, not the backlog that called for them
+    if (decision.queueCount > metrics.queueCount) {
+      this.target.rebalanceQueues();
+    }
+
+    this.lastScaledAt = Date.now();
+    this.emit(`autoscale:${decision.direction}`, decision);
+    return decision;
+  }
+
+  private hold(direction: 'up' | 'down', metrics: AutoscaleMetrics, reason: string): AutoscaleDecision {
+    const decision: AutoscaleDecision = {
+      direction,
+      reason,
+      metrics,
+      queueCount: metrics.queueCount,
+      concurrencyPerQueue: metrics.concurrencyPerQueue
+    };
+    this.emit('autoscale:held', decision);
+    return decision;
+  }
+}
+
+function formatPercent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
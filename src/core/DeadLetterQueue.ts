@@ -0,0 +1,54 @@
+import { DeadLetterEntry, Job } from './types';
+import { cloneJob } from './Job';
+
+/**
+ * Keeps jobs that failed or timed out after exhausting all of their attempts,
+ * so they can be inspected and redriven later
+ */
+export class DeadLetterQueue<T = any> {
+  private entries = new Map<string, DeadLetterEntry<T>>();
+
+  constructor(private readonly maxSize: number = 1000) {}
+
+  add(job: Job<T>, queueIndex?: number, queueName?: string): DeadLetterEntry<T> {
+    const entry: DeadLetterEntry<T> = {
+      job: cloneJob(job),
+      queueIndex,
+      queueName,
+      reason: job.status === 'timed_out' ? 'timed_out' : 'failed',
+      deadLetteredAt: Date.now()
+    };
+
+    // Re-adding a job moves it to the end
+    this.entries.delete(job.id);
+    this.entries.set(job.id, entry);
+
+    // Drop the oldest entries once we're over capacity
+    while (this.entries.size > this.maxSize) {
+      const oldestId = this.entries.keys().next().value!;
+      this.entries.delete(oldestId);
+    }
+
+    return entry;
+  }
+
+  get(jobId: string): DeadLetterEntry<T> | undefined {
+    return this.entries.get(jobId);
+  }
+
+  list(offset = 0, limit = Infinity): DeadLetterEntry<T>[] {
+    return Array.from(this.entries.values()).slice(offset, offset + limit);
+  }
+
+  remove(jobId: string): boolean {
+    return this.entries.delete(jobId);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Maps idempotency keys to the job they were first submitted with. A key stays
+ * taken while its job is unfinished and for `windowMs` after it completed;
+ * a job that fails, times out or is cancelled frees its key right away.
+ */
+export class IdempotencyKeys {
+  private active = new Map<string, string>();
+  // In the order the jobs completed, so the oldest expire first
+  private completed = new Map<string, { jobId: string; expiresAt: number }>();
+
+  constructor(private readonly windowMs: number = 60 * 60 * 1000) {}
+
+  add(key: string, jobId: string) {
+    this.completed.delete(key);
+    this.active.set(key, jobId);
+  }
+
+  get(key: string): string | undefined {
+    this.prune();
+    return this.active.get(key) ?? this.completed.get(key)?.jobId;
+  }
+
+  /**
+   * Releases the key of a finished job, or keeps it for the window if the job completed
+   */
+  finish(key: string, jobId: string, completed: boolean) {
+    this.prune();
+    if (this.active.get(key) !== jobId) return;
+    this.active.delete(key);
+
+    if (completed && this.windowMs > 0) {
+      this.completed.set(key, { jobId, expiresAt: Date.now() + this.windowMs });
+    }
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [key, entry] of this.completed) {
+      if (entry.expiresAt > now) break;
+      this.completed.delete(key);
+    }
+  }
+}
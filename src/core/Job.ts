@@ -0,0 +1,201 @@
+import { Job, JobHandle, JobPriorityLevel, JobProgress, JobStatus, RetryPolicy, SerializedJob } from './types';
+
+export const JOB_PRIORITIES: Record<JobPriorityLevel, number> = {
+  critical: 3,
+  high: 2,
+  normal: 1,
+  low: 0
+};
+
+/**
+ * Whether the value is a priority level name or a finite number
+ */
+export function isJobPriority(priority: unknown): priority is JobPriorityLevel | number {
+  if (typeof priority === 'number') return Number.isFinite(priority);
+  return typeof priority === 'string' && Object.prototype.hasOwnProperty.call(JOB_PRIORITIES, priority);
+}
+
+/**
+ * Whether the value is a progress report: a percentage between 0 and 100 or an object
+ */
+export function isJobProgress(progress: unknown): progress is JobProgress {
+  if (typeof progress === 'number') return progress >= 0 && progress <= 100;
+  return typeof progress === 'object' && progress !== null;
+}
+
+/**
+ * Converts a priority level name or number into the numeric priority stored on a job
+ */
+export function resolvePriority(priority?: JobPriorityLevel | number): number {
+  if (priority === undefined) return JOB_PRIORITIES.normal;
+  if (!isJobPriority(priority)) {
+    throw new Error(`Unknown job priority: ${priority}`);
+  }
+  return typeof priority === 'number' ? priority : JOB_PRIORITIES[priority];
+}
+
+/**
+ * Wires the job's completion callbacks to a handle that callers can await.
+ * Callbacks of earlier handles for the same job keep working.
+ */
+export function createJobHandle<T, R>(job: Job<T, R>): JobHandle<R> {
+  const { onComplete, onError } = job;
+  const finished = new Promise<R>((resolve, reject) => {
+    job.onComplete = () => {
+      onComplete?.();
+      resolve(job.result as R);
+    };
+    job.onError = (err) => {
+      onError?.(err);
+      reject(err);
+    };
+  });
+  
+  // Nobody has to await the outcome, so don't report unobserved failures
+  finished.catch(() => {});
+
+  return {
+    id: job.id,
+    status: () => job.status,
+    finished: () => finished
+  };
+}
+
+/**
+ * Creates a handle for a job that has already finished
+ */
+export function createFinishedJobHandle<R>(job: Pick<Job<unknown, R>, 'id' | 'status' | 'result' | 'error'>): JobHandle<R> {
+  const finished = job.status === 'completed'
+    ? Promise.resolve(job.result as R)
+    : Promise.reject(job.error ?? new Error(`Job ${job.status}`));
+  finished.catch(() => {});
+
+  return {
+    id: job.id,
+    status: () => job.status,
+    finished: () => finished
+  };
+}
+
+/**
+ * Creates the error recorded on a job whose attempt ran past its timeout
+ */
+export function createTimeoutError(timeoutMs?: number): Error {
+  const error = new Error(`Job timed out after ${timeoutMs}ms`);
+  error.name = 'JobTimeoutError';
+  return error;
+}
+
+export function createDependencyError(dependencyId: string, status?: JobStatus): Error {
+  const error = new Error(
+    status ? `Dependency ${dependencyId} ended with status ${status}` : `Dependency ${dependencyId} not found`
+  );
+  error.name = 'JobDependencyError';
+  return error;
+}
+
+export function createClosedError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'QueueClosedError';
+  return error;
+}
+
+export function createCancellationError(reason?: string): Error {
+  const error = new Error(reason ? `Job cancelled: ${reason}` : 'Job cancelled');
+  error.name = 'JobCancelledError';
+  return error;
+}
+
+/**
+ * Decides whether a failed attempt should be retried under the job's retry policy
+ */
+export function shouldRetry(job: Job, error: Error): boolean {
+  const policy = job.retry;
+  if (!policy || job.attempts >= policy.maxAttempts) return false;
+  if (!policy.retryOn) return true;
+
+  if (typeof policy.retryOn === 'function') {
+    return policy.retryOn(error, job);
+  }
+
+  const code = (error as NodeJS.ErrnoException).code;
+  return policy.retryOn.some(matcher =>
+    typeof matcher === 'string'
+      ? matcher === error.name || matcher === code
+      : matcher.test(error.message)
+  );
+}
+
+/**
+ * Computes the delay before the next attempt, given how many attempts have already run
+ */
+export function getRetryDelay(policy: RetryPolicy, attempts: number): number {
+  const backoff = typeof policy.backoff === 'number'
+    ? { type: 'fixed' as const, delayMs: policy.backoff }
+    : policy.backoff;
+  if (!backoff) return 0;
+
+  const maxDelay = backoff.maxDelayMs ?? Infinity;
+  const exponential = Math.min(backoff.delayMs * Math.pow(2, attempts - 1), maxDelay);
+
+  switch (backoff.type) {
+    case 'fixed':
+      return backoff.delayMs;
+    case 'exponential':
+      return exponential;
+    case 'jitter':
+      // "Full jitter": a random delay up to the exponential backoff
+      return Math.round(Math.random() * exponential);
+    default:
+      throw new Error(`Unknown backoff type: ${(backoff as { type: string }).type}`);
+  }
+}
+
+/**
+ * Copies a job without its timer and promise callbacks
+ */
+export function cloneJob<T, R>(job: Job<T, R>): Job<T, R> {
+  const { timeoutRef, onComplete, onError, ...rest } = job;
+  return { ...rest, attemptHistory: [...job.attemptHistory] };
+}
+
+/**
+ * Converts a job into a plain object that can be sent as JSON
+ */
+export function serializeJob<T, R>(job: Job<T, R>): SerializedJob<T, R> {
+  const { error, ...rest } = cloneJob(job);
+  return {
+    ...rest,
+    error: error && { name: error.name, message: error.message, stack: error.stack }
+  };
+}
+
+/**
+ * Rebuilds a job from its serialized form. Callbacks are left unset, and
+ * `retry.retryOn` is only kept when it is a list of error names (functions
+ * and RegExps do not survive serialization).
+ */
+export function deserializeJob<T, R = any>(serialized: SerializedJob<T, R>): Job<T, R> {
+  const { error, retry, ...rest } = serialized;
+
+  let restoredError: Error | undefined;
+  if (error) {
+    restoredError = new Error(error.message);
+    restoredError.name = error.name;
+    restoredError.stack = error.stack;
+  }
+
+  return {
+    ...rest,
+    attempts: rest.attempts ?? 0,
+    attemptHistory: rest.attemptHistory ?? [],
+    retry: retry && restoreRetryPolicy(retry),
+    error: restoredError
+  };
+}
+
+function restoreRetryPolicy(retry: RetryPolicy): RetryPolicy {
+  const { retryOn, ...rest } = retry;
+  const serializable = Array.isArray(retryOn) && retryOn.every(matcher => typeof matcher === 'string');
+  return serializable ? { ...rest, retryOn } : rest;
+}
@@ -0,0 +1,122 @@
+import { EventEmitter } from 'eventemitter3';
+import { GroupConcurrencyOptions, Job } from './types';
+
+interface GroupState {
+  active: Set<string>; // Jobs holding one of the group's slots, including ones waiting for a retry
+  waiting: Map<string, Job>; // Pending jobs in the order they must start
+  newestCreatedAt: number; // Of the waiting jobs, so new jobs are appended without a sort
+}
+
+/**
+ * Limits how many jobs with the same `groupKey` run at once (1 by default)
+ * and starts them in the order they were created. One instance is shared by
+ * all queues of a manager, so the limits hold across queues.
+ *
+ * A job keeps its slot until it finishes for good, so a job waiting to be
+ * retried still holds up the rest of its group. Emits 'released' whenever a
+ * slot frees up or a job at the front of a group leaves it, so queues holding
+ * the group's next jobs can start them.
+ */
+export class JobGroups extends EventEmitter {
+  private groups = new Map<string, GroupState>();
+  private readonly defaultLimit: number;
+  private readonly limits: Record<string, number>;
+
+  constructor(options: GroupConcurrencyOptions = {}) {
+    super();
+    this.defaultLimit = options.defaultLimit ?? 1;
+    this.limits = options.limits ?? {};
+  }
+
+  /**
+   * Records a job that became pending
+   */
+  enqueue(job: Job) {
+    if (job.groupKey === undefined) return;
+
+    let group = this.groups.get(job.groupKey);
+    if (!group) {
+      group = { active: new Set(), waiting: new Map(), newestCreatedAt: -Infinity };
+      this.groups.set(job.groupKey, group);
+    }
+    if (group.active.has(job.id) || group.waiting.has(job.id)) return;
+
+    if (job.createdAt >= group.newestCreatedAt) {
+      group.waiting.set(job.id, job);
+      group.newestCreatedAt = job.createdAt;
+      return;
+    }
+
+    // Older jobs (e.g. recovered ones) go first
+    const waiting = [...group.waiting.values(), job].sort((a, b) => a.createdAt - b.createdAt);
+    group.waiting = new Map(waiting.map(j => [j.id, j]));
+  }
+
+  canStart(job: Job): boolean {
+    if (job.groupKey === undefined) return true;
+
+    const group = this.groups.get(job.groupKey);
+    if (!group || group.active.has(job.id)) return true;
+
+    const free = this.getLimit(job.groupKey) - group.active.size;
+    return isAmongFirst(group.waiting, job.id, free);
+  }
+
+  // Whether the job holds one of its group's slots, e.g. while waiting for a retry
+  holdsSlot(job: Job): boolean {
+    return job.groupKey !== undefined && !!this.groups.get(job.groupKey)?.active.has(job.id);
+  }
+
+  start(job: Job) {
+    if (job.groupKey === undefined) return;
+
+    const group = this.groups.get(job.groupKey);
+    if (!group) return;
+
+    group.waiting.delete(job.id);
+    group.active.add(job.id);
+  }
+
+  /**
+   * Forgets a job that finished or was removed, freeing its slot
+   */
+  finish(job: Job) {
+    if (job.groupKey === undefined) return;
+
+    const group = this.groups.get(job.groupKey);
+    if (!group) return;
+
+    // A job leaving the front of the line lets the next one move up
+    const wasNext = isAmongFirst(group.waiting, job.id, this.getLimit(job.groupKey));
+    group.waiting.delete(job.id);
+    const released = group.active.delete(job.id);
+    if (group.active.size === 0 && group.waiting.size === 0) {
+      this.groups.delete(job.groupKey);
+    }
+
+    if (released || wasNext) this.emit('released', job.groupKey);
+  }
+
+  getLimit(groupKey: string): number {
+    return this.limits[groupKey] ?? this.defaultLimit;
+  }
+
+  /**
+   * Number of jobs of the group holding a slot
+   */
+  getActiveCount(groupKey: string): number {
+    return this.groups.get(groupKey)?.active.size ?? 0;
+  }
+}
+
+// Whether the job is one of the first `count` waiting jobs
+function isAmongFirst(waiting: Map<string, Job>, jobId: string, count: number): boolean {
+  if (count <= 0 || !waiting.has(jobId)) return false;
+
+  let position = 0;
+  for (const id of waiting.keys()) {
+    if (id === jobId) return true;
+    if (++position >= count) return false;
+  }
+  return false;
+}
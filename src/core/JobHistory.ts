@@ -0,0 +1,47 @@
+import { JobInfo } from './types';
+
+/**
+ * Bounded record of finished jobs, dropping the oldest entries once it holds
+ * `maxSize` jobs or they are older than `maxAgeMs`
+ */
+export class JobHistory<T = any> {
+  private jobs = new Map<string, JobInfo<T>>();
+
+  constructor(
+    private readonly maxSize: number = 1000,
+    private readonly maxAgeMs: number = 60 * 60 * 1000
+  ) {}
+
+  add(job: JobInfo<T>) {
+    // Re-adding a job (e.g. after a redrive) moves it to the end
+    this.jobs.delete(job.id);
+    if (this.maxSize <= 0) return;
+    
+    this.jobs.set(job.id, job);
+    this.prune();
+  }
+
+  get(jobId: string): JobInfo<T> | undefined {
+    this.prune();
+    return this.jobs.get(jobId);
+  }
+
+  delete(jobId: string): boolean {
+    return this.jobs.delete(jobId);
+  }
+
+  get size() {
+    this.prune();
+    return this.jobs.size;
+  }
+
+  private prune() {
+    const cutoff = Date.now() - this.maxAgeMs;
+    
+    // Entries are in the order they finished, so the oldest come first
+    for (const [id, job] of this.jobs) {
+      if (this.jobs.size <= this.maxSize && (job.completedAt ?? 0) >= cutoff) break;
+      this.jobs.delete(id);
+    }
+  }
+}
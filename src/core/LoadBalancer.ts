@@ -0,0 +1,123 @@
+import { LoadBalancingStrategy, QueueSelector, QueueStats } from './types';
+
+// Points per queue on the hash ring; more points spread keys more evenly
+const VIRTUAL_NODES = 128;
+
+/**
+ * Creates the function that picks a pool queue for each new job.
+ * Strategies that keep state (round-robin, weighted, consistent-hash) adapt
+ * when the number of queues changes.
+ */
+export function createQueueSelector<T>(
+  strategy: LoadBalancingStrategy | QueueSelector<T> = 'least-loaded',
+  weights: number[] = []
+): QueueSelector<T> {
+  if (typeof strategy === 'function') return strategy;
+
+  switch (strategy) {
+    case 'least-loaded':
+      return (_job, stats) => leastLoaded(stats);
+    case 'round-robin': {
+      let next = 0;
+      return (_job, stats) => next++ % stats.length;
+    }
+    case 'random':
+      return (_job, stats) => Math.floor(Math.random() * stats.length);
+    case 'weighted':
+      return createWeightedSelector(weights);
+    case 'consistent-hash':
+      return createConsistentHashSelector();
+    default:
+      throw new Error(`Unknown load balancing strategy: ${strategy}`);
+  }
+}
+
+/**
+ * Queue with the fewest pending + running jobs (the first one on a tie)
+ */
+function leastLoaded(stats: QueueStats[]): number {
+  let best = 0;
+  for (let i = 1; i < stats.length; i++) {
+    if (stats[i].length + stats[i].running < stats[best].length + stats[best].running) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Smooth weighted round-robin: over time every queue gets a share of jobs
+ * proportional to its weight, without sending them in bursts
+ */
+function createWeightedSelector<T>(weights: number[]): QueueSelector<T> {
+  let current: number[] = [];
+
+  return (_job, stats) => {
+    const effective = stats.map((s, i) => Math.max(weights[i] ?? s.maxConcurrency, 0));
+    const total = effective.reduce((sum, weight) => sum + weight, 0);
+    if (total === 0) return leastLoaded(stats);
+
+    if (current.length !== stats.length) current = stats.map(() => 0);
+
+    let best = 0;
+    for (let i = 0; i < stats.length; i++) {
+      current[i] += effective[i];
+      if (current[i] > current[best]) best = i;
+    }
+    current[best] -= total;
+    return best;
+  };
+}
+
+/**
+ * Maps routing keys onto a hash ring of the queues, so a key keeps going to
+ * the same queue and only a fraction of keys move when queues are added or
+ * removed. Jobs without a key go to the least loaded queue.
+ */
+function createConsistentHashSelector<T>(): QueueSelector<T> {
+  let ring: { hash: number; queue: number }[] = [];
+  let ringSize = 0;
+
+  return (job, stats) => {
+    const key = job.options.routingKey;
+    if (key === undefined) return leastLoaded(stats);
+
+    if (ringSize !== stats.length) {
+      ring = [];
+      for (let queue = 0; queue < stats.length; queue++) {
+        for (let node = 0; node < VIRTUAL_NODES; node++) {
+          ring.push({ hash: hash(`queue-${queue}#${node}`), queue });
+        }
+      }
+      ring.sort((a, b) => a.hash - b.hash);
+      ringSize = stats.length;
+    }
+
+    // First point clockwise from the key's hash
+    const keyHash = hash(key);
+    let low = 0;
+    let high = ring.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (ring[mid].hash < keyHash) low = mid + 1;
+      else high = mid;
+    }
+    return ring[low % ring.length].queue;
+  };
+}
+
+// 32-bit FNV-1a, with the MurmurHash3 finalizer so similar keys land far apart
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
@@ -0,0 +1,185 @@
+import { Job } from './types';
+
+/**
+ * Priority-ordered store for jobs waiting to run.
+ *
+ * Jobs are kept in one FIFO bucket per priority, so the oldest job of each
+ * bucket is always its best candidate. Aging raises the effective priority of
+ * a job by one level for every `agingIntervalMs` it has waited, which keeps
+ * low-priority jobs from starving behind a steady stream of urgent ones.
+ *
+ * Of the jobs with the same `groupKey`, only the first created of each
+ * bucket sits in the bucket; the rest wait behind it. Groups start in the
+ * order their jobs were created, so when the first can't start the others
+ * can't either, and a dispatch skips a blocked group in one step instead of
+ * looking at each of its jobs. Jobs that already hold their group's slot
+ * (e.g. coming back for a retry) aren't held up by the group and go straight
+ * into the bucket.
+ */
+export class PendingJobs<T = any> {
+  private buckets = new Map<number, Job<T>[]>();
+  // Priority -> groupKey -> the group's job in the bucket and the ones waiting behind it, by creation time
+  private groups = new Map<number, Map<string, { head: Job<T>; tail: Job<T>[] }>>();
+  private count = 0;
+
+  constructor(
+    private readonly agingIntervalMs: number = 0,
+    private readonly maxAgingBoost: number = Infinity,
+    private readonly holdsGroupSlot: (job: Job<T>) => boolean = () => false
+  ) {}
+
+  push(job: Job<T>) {
+    job.enqueuedAt = job.enqueuedAt ?? Date.now();
+    this.count++;
+
+    let bucket = this.buckets.get(job.priority);
+    if (!bucket) {
+      bucket = [];
+      this.buckets.set(job.priority, bucket);
+    }
+
+    if (job.groupKey !== undefined && !this.holdsGroupSlot(job)) {
+      let groups = this.groups.get(job.priority);
+      if (!groups) {
+        groups = new Map();
+        this.groups.set(job.priority, groups);
+      }
+
+      const group = groups.get(job.groupKey);
+      if (!group) {
+        groups.set(job.groupKey, { head: job, tail: [] });
+      } else if (group.head.createdAt <= job.createdAt) {
+        insertBy(group.tail, job, 'createdAt');
+        return;
+      } else {
+        // The job was created before the group's current head (e.g. a delayed or recovered one) and takes its place
+        bucket.splice(bucket.indexOf(group.head), 1);
+        group.tail.unshift(group.head);
+        group.head = job;
+      }
+    }
+
+    // Keep each bucket ordered by enqueue time (re-queued jobs keep their place)
+    insertBy(bucket, job, 'enqueuedAt');
+  }
+
+  /**
+   * Removes and returns the job with the highest effective priority,
+   * optionally skipping jobs rejected by the predicate. For jobs of a group
+   * only the first created of each priority is offered to the predicate.
+   */
+  take(predicate?: (job: Job<T>) => boolean): Job<T> | undefined {
+    const now = Date.now();
+    let best: { job: Job<T>; bucket: Job<T>[]; index: number; priority: number } | undefined;
+
+    for (const bucket of this.buckets.values()) {
+      const index = predicate ? bucket.findIndex(predicate) : 0;
+      if (index === -1) continue;
+
+      const job = bucket[index];
+      const priority = this.effectivePriority(job, now);
+
+      if (
+        !best ||
+        priority > best.priority ||
+        (priority === best.priority && job.enqueuedAt! < best.job.enqueuedAt!)
+      ) {
+        best = { job, bucket, index, priority };
+      }
+    }
+
+    if (!best) return undefined;
+
+    this.removeAt(best.bucket, best.index, best.job.priority);
+    return best.job;
+  }
+
+  remove(jobId: string): Job<T> | undefined {
+    for (const [priority, bucket] of this.buckets) {
+      const index = bucket.findIndex(job => job.id === jobId);
+      if (index !== -1) {
+        return this.removeAt(bucket, index, priority);
+      }
+    }
+
+    for (const groups of this.groups.values()) {
+      for (const { tail } of groups.values()) {
+        const index = tail.findIndex(job => job.id === jobId);
+        if (index === -1) continue;
+
+        this.count--;
+        return tail.splice(index, 1)[0];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns all pending jobs in the order they would be started
+   */
+  toArray(): Job<T>[] {
+    const now = Date.now();
+    const jobs: Job<T>[] = [];
+    for (const bucket of this.buckets.values()) {
+      jobs.push(...bucket);
+    }
+    for (const groups of this.groups.values()) {
+      for (const { tail } of groups.values()) {
+        jobs.push(...tail);
+      }
+    }
+
+    return jobs.sort((a, b) =>
+      this.effectivePriority(b, now) - this.effectivePriority(a, now) ||
+      a.enqueuedAt! - b.enqueuedAt!
+    );
+  }
+
+  get size() {
+    return this.count;
+  }
+
+  effectivePriority(job: Job<T>, now: number = Date.now()): number {
+    if (this.agingIntervalMs <= 0) return job.priority;
+
+    const waited = now - (job.enqueuedAt ?? now);
+    const boost = Math.min(Math.floor(waited / this.agingIntervalMs), this.maxAgingBoost);
+    return job.priority + boost;
+  }
+
+  private removeAt(bucket: Job<T>[], index: number, priority: number): Job<T> {
+    const [job] = bucket.splice(index, 1);
+    this.count--;
+
+    // The next job of the group moves up into the bucket (jobs holding a slot were never part of it)
+    const groups = job.groupKey !== undefined ? this.groups.get(priority) : undefined;
+    const group = groups?.get(job.groupKey!);
+    if (groups && group?.head === job) {
+      const next = group.tail.shift();
+      if (next) {
+        group.head = next;
+        insertBy(bucket, next, 'enqueuedAt');
+      } else {
+        groups.delete(job.groupKey!);
+        if (groups.size === 0) this.groups.delete(priority);
+      }
+    }
+
+    if (bucket.length === 0) {
+      this.buckets.delete(priority);
+    }
+    return job;
+  }
+}
+
+// Inserts after the jobs with the same or an earlier time (usually at the end)
+function insertBy<T>(jobs: Job<T>[], job: Job<T>, key: 'enqueuedAt' | 'createdAt') {
+  let low = 0;
+  let high = jobs.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (jobs[mid][key]! <= job[key]!) low = mid + 1;
+    else high = mid;
+  }
+  jobs.splice(low, 0, job);
+}
@@ -1,45 +1,236 @@
 import { EventEmitter } from 'eventemitter3';
-import { Job, QueueOptions } from './types';
+import {
+  CloseOptions, CloseResult, Job, JobAttempt, JobHandle, JobHandler, JobOptions, JobProgress, JobStore, QueueOptions, RateLimit, RetryPolicy
+} from './types';
+import { PendingJobs } from './PendingJobs';
+import { RateLimiter } from './RateLimiter';
+import { JobGroups } from './JobGroups';
+import { ThreadPool, ThreadPoolOptions } from './processors/ThreadPool';
+import { SandboxPool, SandboxPoolOptions } from './processors/SandboxPool';
+import {
+  createCancellationError, createClosedError, createDependencyError, createJobHandle, createTimeoutError, getRetryDelay, isJobProgress, resolvePriority, serializeJob, shouldRetry
+} from './Job';
 import { v4 as uuid } from 'uuid';
 
-export class Queue<T = any> extends EventEmitter {  
-  private queue: Job<T>[] = [];
-  private runningJobs: Job<T>[] = [];
-  private readonly concurrency: number;
+export class Queue<T = any, R = any> extends EventEmitter {  
+  private queue: PendingJobs<T>;
+  private runningJobs: Job<T, R>[] = [];
+  private concurrency: number;
   private readonly defaultTimeout: number;
+  private readonly defaultRetry?: RetryPolicy;
+  private delayed: Job<T, R>[] = []; // Ordered by runAt
+  private delayTimer: NodeJS.Timeout | null = null;
+  private blocked = new Map<string, Job<T, R>>(); // Waiting for dependencies
+  private readonly store?: JobStore;
+  private handler?: JobHandler<T, R>;
+  private processorPool?: ThreadPool<T, R> | SandboxPool<T, R>;
+  private poolSizedByConcurrency = false; // The pool grows and shrinks with setConcurrency
+  private abortControllers = new Map<string, AbortController>();
   private id: string;
   private active = true;
+  private dispatchScheduled = false;
+  private readonly pollIntervalMs?: number;
   private workerTimer: NodeJS.Timeout | null = null;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly typeRateLimiters = new Map<string, RateLimiter>();
+  private rateLimitTimer: NodeJS.Timeout | null = null;
+  private readonly groups: JobGroups;
+  private closing?: Promise<CloseResult<T, R>>;
+  private readonly onGroupReleased = () => this.scheduleDispatch();
 
   constructor(options: QueueOptions = {}, id?: string) {
     super();
     this.concurrency = options.concurrency ?? 1;
     this.defaultTimeout = options.defaultTimeoutMs ?? 30000;
+    this.defaultRetry = options.retry;
+    this.store = options.store;
+    this.pollIntervalMs = options.pollIntervalMs;
+    this.rateLimiter = options.rateLimit && toRateLimiter(options.rateLimit);
+    for (const [type, limit] of Object.entries(options.typeRateLimits ?? {})) {
+      this.typeRateLimiters.set(type, toRateLimiter(limit));
+    }
+    this.groups = options.groups instanceof JobGroups ? options.groups : new JobGroups(options.groups);
+    // A slot freed, or a group's next job removed, in another queue may let one of our jobs start
+    this.groups.on('released', this.onGroupReleased);
+    this.queue = new PendingJobs<T>(
+      options.agingIntervalMs ?? 60000,
+      options.maxAgingBoost ?? 3,
+      job => this.groups.holdsSlot(job)
+    );
     this.id = id || uuid();
     
-    // Start the worker process
+    // Start the worker (dispatch itself is driven by job events)
     this.startWorker();
   }
 
-  async addJob(data: T, timeoutMs?: number): Promise<string> {
-    return new Promise<string>((resolve, reject) => {
-      const jobId = uuid();
-      const job: Job<T> = {
-        id: jobId,
-        data,
-        createdAt: Date.now(),
-        status: 'pending',
-        timeoutMs: timeoutMs ?? this.defaultTimeout,
-        onComplete: () => resolve(jobId),
-        onError: (err) => reject(err),
-      };
+  /**
+   * Adds a job. A number in place of the options is taken as its timeout
+   * in milliseconds, like before there were any other options.
+   */
+  async addJob(data: T, options: JobOptions | number = {}): Promise<JobHandle<R>> {
+    if (this.closing) {
+      throw createClosedError(`Queue ${this.id} is closed`);
+    }
+    if (typeof options === 'number') {
+      options = { timeoutMs: options };
+    }
+    
+    if (options.delayMs !== undefined && !(Number.isFinite(options.delayMs) && options.delayMs >= 0)) {
+      throw new Error('delayMs must be a non-negative number');
+    }
+    
+    const priority = resolvePriority(options.priority);
+    const retry = this.defaultRetry || options.retry
+      ? { maxAttempts: 1, ...this.defaultRetry, ...options.retry }
+      : undefined;
+    const runAt = options.runAt !== undefined
+      ? new Date(options.runAt).getTime()
+      : options.delayMs ? Date.now() + options.delayMs : undefined;
+    
+    const job: Job<T, R> = {
+      id: uuid(),
+      data,
+      type: options.type,
+      queue: options.queue,
+      routingKey: options.routingKey,
+      idempotencyKey: options.idempotencyKey,
+      groupKey: options.groupKey,
+      priority,
+      createdAt: Date.now(),
+      status: 'pending',
+      timeoutMs: options.timeoutMs ?? this.defaultTimeout,
+      attempts: 0,
+      attemptHistory: [],
+      retry,
+      runAt,
+      dependsOn: options.dependsOn,
+      waitingOn: options.dependsOn && [...new Set(options.dependsOn)],
+      onDependencyFailure: options.onDependencyFailure
+    };
+    const handle = createJobHandle(job);
 
+    this.insert(job);
+    return handle;
+  }
+
+  /**
+   * Puts an existing job (e.g. one redriven from the dead-letter queue or
+   * recovered from a store) back in line
+   */
+  public enqueue(job: Job<T, R>) {
+    if (this.closing) {
+      throw createClosedError(`Queue ${this.id} is closed`);
+    }
+    this.insert(job);
+  }
+  
+  private insert(job: Job<T, R>) {
+    if (job.waitingOn && job.waitingOn.length > 0) {
+      job.status = 'blocked';
+      this.blocked.set(job.id, job);
+      this.persist(job);
+      this.emit('job:blocked', job);
+      return;
+    }
+    
+    if (job.runAt !== undefined && job.runAt > Date.now()) {
+      this.delay(job);
+      this.persist(job);
+      this.emit('job:delayed', job);
+      return;
+    }
+    
+    job.status = 'pending';
+    this.queue.push(job);
+    this.groups.enqueue(job);
+    this.persist(job);
+    this.emit('job:queued', job);
+    this.scheduleDispatch();
+  }
+  
+  /**
+   * Holds a job back until its runAt time
+   */
+  private delay(job: Job<T, R>) {
+    job.status = 'delayed';
+    
+    let index = this.delayed.length;
+    while (index > 0 && this.delayed[index - 1].runAt! > job.runAt!) {
+      index--;
+    }
+    this.delayed.splice(index, 0, job);
+    
+    if (index === 0) this.armDelayTimer();
+  }
+  
+  private armDelayTimer() {
+    if (this.delayTimer) clearTimeout(this.delayTimer);
+    this.delayTimer = null;
+    if (this.delayed.length === 0) return;
+    
+    // setTimeout overflows past ~24.8 days, so wake up early and re-arm
+    const wait = Math.min(Math.max(this.delayed[0].runAt! - Date.now(), 0), 0x7fffffff);
+    this.delayTimer = setTimeout(() => this.promoteDueJobs(), wait);
+  }
+  
+  /**
+   * Moves delayed jobs whose runAt has passed into the pending queue
+   */
+  private promoteDueJobs() {
+    const now = Date.now();
+    
+    while (this.delayed.length > 0 && this.delayed[0].runAt! <= now) {
+      const job = this.delayed.shift()!;
+      job.status = 'pending';
+      job.enqueuedAt = job.runAt;
       this.queue.push(job);
-      this.emit('job:queued', job);
+      this.groups.enqueue(job);
+    }
+    
+    this.armDelayTimer();
+    this.scheduleDispatch();
+  }
+
+  /**
+   * Records that one of a blocked job's dependencies has finished, or no longer
+   * exists when `dependency` is omitted. The job is queued once all of them have
+   * finished; a dependency that did not complete fails it unless its
+   * onDependencyFailure is 'continue'.
+   * 
+   * @returns Whether the job was blocked on this dependency in this queue
+   */
+  public resolveDependency(
+    jobId: string,
+    dependencyId: string,
+    dependency?: Pick<Job<unknown, unknown>, 'status' | 'result'>
+  ): boolean {
+    const job = this.blocked.get(jobId);
+    if (!job || !job.waitingOn!.includes(dependencyId)) return false;
+    
+    job.waitingOn = job.waitingOn!.filter(id => id !== dependencyId);
+    
+    if (dependency?.status === 'completed') {
+      job.parentResults = { ...job.parentResults, [dependencyId]: dependency.result };
+    } else if (job.onDependencyFailure !== 'continue') {
+      this.blocked.delete(jobId);
+      job.status = 'failed';
+      job.error = createDependencyError(dependencyId, dependency?.status);
+      job.completedAt = Date.now();
+      this.unpersist(job);
       
-      // No need to call tryRun here - the worker will handle it
-      return jobId;
-    });
+      // Notify listeners
+      job.onError?.(job.error);
+      this.emit('job:failed', job);
+      return true;
+    }
+    
+    if (job.waitingOn.length === 0) {
+      this.blocked.delete(jobId);
+      this.insert(job);
+    } else {
+      this.persist(job);
+    }
+    return true;
   }
 
   private startWorker() {
@@ -47,35 +238,97 @@ export class Queue<T = any> extends EventEmitter {
       clearInterval(this.workerTimer);
     }
     
-    // Create a continuous worker that checks for jobs to process
-    this.workerTimer = setInterval(() => {
-      if (!this.active) return;
-      this.processNextJobs();
-    }, 100); // Check for new jobs every 100ms
+    // Legacy mode: check for new jobs on a fixed interval only
+    if (this.pollIntervalMs) {
+      this.workerTimer = setInterval(() => {
+        if (!this.active) return;
+        this.processNextJobs();
+      }, this.pollIntervalMs);
+    }
     
     this.emit('worker:started', { queueId: this.id });
   }
   
+  /**
+   * Starts waiting jobs as soon as the current call stack unwinds. Called
+   * whenever a job becomes runnable or a slot frees up, so an idle queue costs
+   * nothing and several changes in one tick are handled by a single pass.
+   */
+  private scheduleDispatch() {
+    if (this.pollIntervalMs || this.dispatchScheduled || !this.active) return;
+    
+    this.dispatchScheduled = true;
+    queueMicrotask(() => {
+      this.dispatchScheduled = false;
+      if (this.active) this.processNextJobs();
+    });
+  }
+  
   private processNextJobs() {
     // If we're at max concurrency or no jobs in queue, don't do anything
-    if (this.runningJobs.length >= this.concurrency || this.queue.length === 0) return;
+    if (this.runningJobs.length >= this.concurrency || this.queue.size === 0) return;
     
-    // Calculate how many new jobs we can start
-    const slotsAvailable = this.concurrency - this.runningJobs.length;
-    const jobsToStart = Math.min(slotsAvailable, this.queue.length);
+    // Start the highest priority jobs until all slots are taken or rate limits are hit
+    while (this.runningJobs.length < this.concurrency && this.queue.size > 0) {
+      if (this.rateLimiter && !this.rateLimiter.hasToken()) {
+        this.waitForRateLimit([{ scope: 'queue', retryInMs: this.rateLimiter.msUntilToken() }]);
+        return;
+      }
+      
+      // Jobs of a busy group or of a type that is out of tokens keep their place in line
+      const limitedTypes = new Map<string, RateLimiter>();
+      const job = this.queue.take(candidate => {
+        if (!this.groups.canStart(candidate)) return false;
+        
+        const limiter = this.getTypeRateLimiter(candidate);
+        if (!limiter || limiter.hasToken()) return true;
+        limitedTypes.set(candidate.type!, limiter);
+        return false;
+      });
+      
+      if (!job) {
+        this.waitForRateLimit([...limitedTypes].map(([type, limiter]) => ({
+          scope: 'type' as const,
+          type,
+          retryInMs: limiter.msUntilToken()
+        })));
+        return;
+      }
+      
+      this.rateLimiter?.tryTake();
+      this.getTypeRateLimiter(job)?.tryTake();
+      this.startJob(job);
+    }
+  }
+  
+  private getTypeRateLimiter(job: Job<T, R>): RateLimiter | undefined {
+    return job.type !== undefined ? this.typeRateLimiters.get(job.type) : undefined;
+  }
+  
+  /**
+   * Tries again once the first of the exhausted rate limits has a token.
+   * Reported once per wait rather than on every dispatch attempt.
+   */
+  private waitForRateLimit(limits: { scope: 'queue' | 'type'; type?: string; retryInMs: number }[]) {
+    if (limits.length === 0 || this.rateLimitTimer) return;
+    
+    const retryInMs = Math.min(...limits.map(limit => limit.retryInMs));
+    this.rateLimitTimer = setTimeout(() => {
+      this.rateLimitTimer = null;
+      this.scheduleDispatch();
+    }, retryInMs);
     
-    // Start jobs
-    for (let i = 0; i < jobsToStart; i++) {
-      this.startJob(this.queue.shift()!);
+    for (const limit of limits) {
+      this.emit('rate:limited', { queueId: this.id, ...limit });
     }
   }
   
-  private startJob(job: Job<T>) {
+  private startJob(job: Job<T, R>) {
     job.status = 'running';
     job.startedAt = Date.now();
+    job.attempts++;
     this.runningJobs.push(job);
-    
-    this.emit('job:started', job);
+    this.groups.start(job);
     
     // Set timeout for this job
     const timeout = setTimeout(() => {
@@ -86,70 +339,314 @@ export class Queue<T = any> extends EventEmitter {
     job.timeoutRef = timeout;
     
     // Set up listeners for job completion or failure
-    this.once(`job:complete:${job.id}`, () => {
-      this.handleJobCompletion(job);
+    this.once(`job:complete:${job.id}`, (result?: R) => {
+      this.handleJobCompletion(job, result);
     });
     
     this.once(`job:fail:${job.id}`, (error?: Error) => {
       this.handleJobFailure(job, error);
     });
+    
+    this.persist(job);
+    
+    // Announce the job only once it can be completed or failed
+    this.emit('job:started', job);
+    
+    if (this.handler) {
+      this.runHandler(job, this.handler);
+    }
   }
   
-  private handleJobCompletion(job: Job<T>) {
-    if (job.timeoutRef) clearTimeout(job.timeoutRef);
+  private runHandler(job: Job<T, R>, handler: JobHandler<T, R>) {
+    const attempt = job.attempts;
+    // The attempt may have timed out (and even been retried) while the handler ran
+    const isCurrentAttempt = () => job.status === 'running' && job.attempts === attempt;
+    // A 'job:started' listener may already have finished it
+    if (!isCurrentAttempt()) return;
+    
+    const controller = new AbortController();
+    this.abortControllers.set(job.id, controller);
+    
+    const context = {
+      reportProgress: (progress: JobProgress) => {
+        if (isCurrentAttempt()) this.reportProgress(job.id, progress);
+      },
+      signal: controller.signal
+    };
+    
+    Promise.resolve()
+      .then(() => handler(job, context))
+      .then(
+        result => {
+          if (!isCurrentAttempt()) return;
+          this.completeJob(job.id, result);
+        },
+        error => {
+          if (!isCurrentAttempt()) return;
+          this.failJob(job.id, error instanceof Error ? error : new Error(String(error)));
+        }
+      );
+  }
+  
+  private handleJobCompletion(job: Job<T, R>, result?: R) {
+    this.finishAttempt(job);
     
     job.status = 'completed';
+    job.result = result;
     job.completedAt = Date.now();
-    
-    // Remove from running jobs
-    this.removeRunningJob(job);
+    this.groups.finish(job);
+    this.unpersist(job);
     
     // Notify listeners
     job.onComplete?.();
     this.emit('job:completed', job);
   }
   
-  private handleJobFailure(job: Job<T>, error?: Error) {
-    if (job.timeoutRef) clearTimeout(job.timeoutRef);
+  private handleJobFailure(job: Job<T, R>, error?: Error) {
+    this.finishAttempt(job);
     
-    job.status = 'failed';
-    job.completedAt = Date.now();
     job.error = error || new Error('Job failed without specific error');
+    if (this.retryIfAllowed(job, 'failed')) return;
     
-    // Remove from running jobs
-    this.removeRunningJob(job);
+    job.status = 'failed';
+    job.completedAt = Date.now();
+    this.groups.finish(job);
+    this.unpersist(job);
     
     // Notify listeners
     job.onError?.(job.error);
     this.emit('job:failed', job);
   }
   
-  private handleJobTimeout(job: Job<T>) {
+  private handleJobTimeout(job: Job<T, R>) {
+    const error = createTimeoutError(job.timeoutMs);
+    this.finishAttempt(job, error);
+    
+    job.error = error;
+    if (this.retryIfAllowed(job, 'timed_out')) return;
+    
     job.status = 'timed_out';
     job.completedAt = Date.now();
-    
-    // Remove from running jobs
-    this.removeRunningJob(job);
+    this.groups.finish(job);
+    this.unpersist(job);
     
     // Notify listeners
-    job.onComplete?.(); // We resolve on timeout rather than reject
+    job.onError?.(job.error);
     this.emit('job:timeout', job);
   }
   
-  private removeRunningJob(job: Job<T>) {
+  /**
+   * Clears the timer and listeners of the current attempt and frees its slot.
+   * An in-process handler still working on it is aborted with the given reason.
+   */
+  private finishAttempt(job: Job<T, R>, abortReason?: Error) {
+    if (job.timeoutRef) clearTimeout(job.timeoutRef);
+    job.timeoutRef = undefined;
+    
+    const controller = this.abortControllers.get(job.id);
+    this.abortControllers.delete(job.id);
+    if (abortReason) controller?.abort(abortReason);
+    
+    this.removeAllListeners(`job:complete:${job.id}`);
+    this.removeAllListeners(`job:fail:${job.id}`);
+    this.removeRunningJob(job);
+    this.scheduleDispatch();
+    
+    if (this.runningJobs.length === 0) this.emit('queue:idle');
+  }
+  
+  /**
+   * Records the failed attempt and, if the retry policy allows it, puts the
+   * job back in the queue after its backoff delay
+   */
+  private retryIfAllowed(job: Job<T, R>, status: JobAttempt['status']): boolean {
+    const attempt: JobAttempt = {
+      attempt: job.attempts,
+      startedAt: job.startedAt!,
+      endedAt: Date.now(),
+      status,
+      error: job.error?.message
+    };
+    job.attemptHistory.push(attempt);
+    
+    if (!job.error || !shouldRetry(job, job.error)) return false;
+    
+    const delayMs = getRetryDelay(job.retry!, job.attempts);
+    attempt.retryDelayMs = delayMs;
+    job.runAt = Date.now() + delayMs;
+    this.delay(job);
+    this.persist(job);
+    
+    this.emit('job:retrying', job);
+    return true;
+  }
+  
+  private persist(job: Job<T, R>) {
+    if (this.store) {
+      this.writeToStore(job, store => store.save(serializeJob(job)));
+    }
+  }
+  
+  private unpersist(job: Job<T, R>) {
+    if (this.store) {
+      this.writeToStore(job, store => store.remove(job.id));
+    }
+  }
+  
+  private writeToStore(job: Job<T, R>, write: (store: JobStore) => void | Promise<void>) {
+    // A failing store must not break job processing, so errors are only reported
+    try {
+      Promise.resolve(write(this.store!)).catch(error => {
+        this.emit('store:error', { jobId: job.id, error });
+      });
+    } catch (error) {
+      this.emit('store:error', { jobId: job.id, error });
+    }
+  }
+  
+  private removeRunningJob(job: Job<T, R>) {
     const index = this.runningJobs.findIndex(j => j.id === job.id);
     if (index !== -1) {
       this.runningJobs.splice(index, 1);
     }
   }
 
-  public completeJob(jobId: string) {
-    this.emit(`job:complete:${jobId}`);
+  /**
+   * Runs jobs in-process with the given handler instead of waiting for an
+   * external completeJob/failJob call. Timeouts still apply.
+   */
+  public process(handler: JobHandler<T, R>) {
+    this.closeProcessorPool();
+    this.handler = handler;
+  }
+
+  /**
+   * Runs jobs on worker threads that load the processor module at `file`
+   * (see ThreadPool). The pool has one thread per concurrency slot unless
+   * `options.size` says otherwise. Timeouts and cancellations terminate the
+   * thread running the job, and crashed threads are restarted.
+   */
+  public processInThreads(file: string, options: ThreadPoolOptions = {}) {
+    const pool = new ThreadPool<T, R>(file, { ...options, size: options.size ?? this.concurrency });
+    pool.on('thread:restarted', (data) => this.emit('thread:restarted', { ...data, queueId: this.id }));
+    
+    this.process(pool.run);
+    this.processorPool = pool;
+    this.poolSizedByConcurrency = options.size === undefined;
+  }
+
+  /**
+   * Runs jobs in child processes that load the processor module at `file`
+   * (see SandboxPool), one process per concurrency slot unless `options.size`
+   * says otherwise. Timeouts and cancellations kill the process running the
+   * job, and what the job wrote to stdout/stderr is kept in `job.output`.
+   */
+  public processInSandbox(file: string, options: SandboxPoolOptions = {}) {
+    const pool = new SandboxPool<T, R>(file, { ...options, size: options.size ?? this.concurrency });
+    pool.on('sandbox:restarted', (data) => this.emit('sandbox:restarted', { ...data, queueId: this.id }));
+    
+    this.process(pool.run);
+    this.processorPool = pool;
+    this.poolSizedByConcurrency = options.size === undefined;
+  }
+
+  /**
+   * Changes how many jobs run at once. Raising it starts waiting jobs right
+   * away; lowering it lets running jobs finish and starts no new ones until
+   * the queue is below the new limit.
+   */
+  public setConcurrency(concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency <= 0) {
+      throw new Error('Concurrency must be a positive integer');
+    }
+    
+    const previousConcurrency = this.concurrency;
+    if (concurrency === previousConcurrency) return;
+    this.concurrency = concurrency;
+    
+    if (this.poolSizedByConcurrency) {
+      this.processorPool?.resize(concurrency);
+    }
+    this.emit('concurrency:updated', { queueId: this.id, previousConcurrency, newConcurrency: concurrency });
+    this.scheduleDispatch();
+  }
+
+  public completeJob(jobId: string, result?: R) {
+    this.emit(`job:complete:${jobId}`, result);
   }
 
   public failJob(jobId: string, error?: Error) {
     this.emit(`job:fail:${jobId}`, error);
   }
+
+  /**
+   * Cancels a blocked, delayed, pending or running job. Cancelled jobs are not retried
+   * and their handle's finished() promise rejects with a JobCancelledError.
+   * 
+   * @returns Whether the job was waiting or running in this queue
+   */
+  public cancelJob(jobId: string, reason?: string): boolean {
+    let job: Job<T, R> | undefined = this.queue.remove(jobId) ?? this.blocked.get(jobId);
+    this.blocked.delete(jobId);
+    
+    if (!job) {
+      const index = this.delayed.findIndex(j => j.id === jobId);
+      if (index !== -1) {
+        [job] = this.delayed.splice(index, 1);
+        if (index === 0) this.armDelayTimer();
+      }
+    }
+    
+    const error = createCancellationError(reason);
+    if (!job) {
+      job = this.runningJobs.find(j => j.id === jobId);
+      if (!job) return false;
+      this.finishAttempt(job, error);
+    }
+    
+    job.status = 'cancelled';
+    job.error = error;
+    job.completedAt = Date.now();
+    this.groups.finish(job);
+    this.unpersist(job);
+    
+    // Notify listeners
+    job.onError?.(error);
+    this.emit('job:cancelled', job);
+    return true;
+  }
+
+  /**
+   * Removes up to `count` pending jobs, in the order this queue would start
+   * them, for another queue to run. Jobs held back by their concurrency group
+   * stay, since no other queue could start them either.
+   */
+  public takePendingJobs(count: number): Job<T, R>[] {
+    const jobs: Job<T, R>[] = [];
+    let job: Job<T, R> | undefined;
+    while (jobs.length < count && (job = this.queue.take(candidate => this.groups.canStart(candidate)))) {
+      jobs.push(job);
+    }
+    return jobs;
+  }
+
+  /**
+   * Records the progress of a running job
+   * 
+   * @returns Whether the job is running in this queue
+   */
+  public reportProgress(jobId: string, progress: JobProgress): boolean {
+    if (!isJobProgress(progress)) {
+      throw new Error('Progress must be a percentage between 0 and 100 or an object');
+    }
+    
+    const job = this.runningJobs.find(j => j.id === jobId);
+    if (!job) return false;
+    
+    job.progress = progress;
+    this.emit('job:progress', job);
+    return true;
+  }
   
   public pause() {
     this.active = false;
@@ -157,8 +654,10 @@ export class Queue<T = any> extends EventEmitter {
   }
   
   public resume() {
+    if (this.closing) return;
     this.active = true;
     this.emit('worker:resumed', { queueId: this.id });
+    this.scheduleDispatch();
   }
   
   public shutdown() {
@@ -167,11 +666,152 @@ export class Queue<T = any> extends EventEmitter {
       clearInterval(this.workerTimer);
       this.workerTimer = null;
     }
+    if (this.delayTimer) {
+      clearTimeout(this.delayTimer);
+      this.delayTimer = null;
+    }
+    if (this.rateLimitTimer) {
+      clearTimeout(this.rateLimitTimer);
+      this.rateLimitTimer = null;
+    }
+    this.closeProcessorPool();
+    // The groups are shared with other queues, which would otherwise keep this one alive
+    this.groups.off('released', this.onGroupReleased);
     this.emit('worker:shutdown', { queueId: this.id });
   }
 
+  // Stops the worker threads or child processes once the jobs running on them are done
+  private closeProcessorPool() {
+    const pool = this.processorPool;
+    if (!pool) return;
+    this.processorPool = undefined;
+    
+    if (this.runningJobs.length === 0) {
+      void pool.close();
+    } else {
+      this.once('queue:idle', () => void pool.close());
+    }
+  }
+
+  /**
+   * Stops accepting jobs and starting pending ones, waits up to
+   * `drainTimeoutMs` for running jobs to finish, then deals with the jobs that
+   * are left (pending, delayed, blocked, and running ones that did not finish)
+   * according to `remaining`, and shuts the queue down.
+   * 
+   * - 'persist' leaves them in the store to be recovered on the next start;
+   *   their handles reject with a QueueClosedError
+   * - 'fail' fails them with a QueueClosedError
+   * - 'return' hands them back (e.g. to enqueue elsewhere) with their handles unsettled
+   */
+  public close(options: CloseOptions = {}): Promise<CloseResult<T, R>> {
+    if (!this.closing) {
+      // Checked before closing starts, so the queue keeps working after a bad call
+      if (options.remaining === 'persist' && !this.store) {
+        return Promise.reject(new Error('Cannot persist remaining jobs without a job store'));
+      }
+      this.closing = this.drainAndClose(options);
+    }
+    return this.closing;
+  }
+  
+  private async drainAndClose(options: CloseOptions): Promise<CloseResult<T, R>> {
+    const remaining = options.remaining ?? (this.store ? 'persist' : 'fail');
+    
+    // Let running jobs finish, but don't start anything new
+    this.active = false;
+    const drained = await this.waitForIdle(options.drainTimeoutMs ?? 30000);
+    
+    const result: CloseResult<T, R> = { drained, persisted: [], failed: [], returned: [] };
+    const error = createClosedError(
+      remaining === 'persist' ? `Queue ${this.id} closed; the job was kept for recovery` : `Queue ${this.id} closed`
+    );
+    
+    for (const job of this.takeRemainingJobs(error)) {
+      if (remaining === 'return') {
+        if (job.status === 'running') job.status = 'pending';
+        result.returned.push(job);
+      } else if (remaining === 'persist') {
+        job.onError?.(error);
+        result.persisted.push(job.id);
+      } else {
+        job.status = 'failed';
+        job.error = error;
+        job.completedAt = Date.now();
+        this.unpersist(job);
+        
+        // Notify listeners
+        job.onError?.(error);
+        this.emit('job:failed', job);
+        result.failed.push(job.id);
+      }
+    }
+    
+    this.shutdown();
+    return result;
+  }
+  
+  private waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.runningJobs.length === 0) return Promise.resolve(true);
+    
+    return new Promise(resolve => {
+      const onIdle = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.off('queue:idle', onIdle);
+        resolve(false);
+      }, timeoutMs);
+      this.once('queue:idle', onIdle);
+    });
+  }
+  
+  /**
+   * Removes every job from the queue, stopping running ones with the given error
+   */
+  private takeRemainingJobs(abortReason: Error): Job<T, R>[] {
+    const jobs: Job<T, R>[] = [...this.runningJobs];
+    for (const job of jobs) {
+      this.finishAttempt(job, abortReason);
+    }
+    
+    jobs.push(...this.takeWaitingJobs());
+    jobs.forEach(job => this.groups.finish(job));
+    return jobs;
+  }
+
+  /**
+   * Removes the pending, delayed and blocked jobs, e.g. to move them to
+   * another queue. Running jobs stay.
+   */
+  public takeWaitingJobs(): Job<T, R>[] {
+    const jobs: Job<T, R>[] = [];
+    let pending: Job<T, R> | undefined;
+    while ((pending = this.queue.take())) {
+      jobs.push(pending);
+    }
+    
+    jobs.push(...this.delayed, ...this.blocked.values());
+    this.delayed = [];
+    this.blocked.clear();
+    if (this.delayTimer) {
+      clearTimeout(this.delayTimer);
+      this.delayTimer = null;
+    }
+    return jobs;
+  }
+
   public get length() {
-    return this.queue.length;
+    return this.queue.size;
+  }
+
+  public getDelayedCount() {
+    return this.delayed.length;
+  }
+
+  public getBlockedCount() {
+    return this.blocked.size;
   }
 
   public getRunningCount() {
@@ -186,12 +826,22 @@ export class Queue<T = any> extends EventEmitter {
     return this.active;
   }
 
-  public getPendingJobs(): Job<T>[] {
-    // Return a copy of pending jobs
-    return [...this.queue];
+  public getPendingJobs(): Job<T, R>[] {
+    // Return a copy of pending jobs in the order they will be started
+    return this.queue.toArray();
+  }
+
+  public getDelayedJobs(): Job<T, R>[] {
+    // Return a copy of delayed jobs, soonest first
+    return [...this.delayed];
+  }
+
+  public getBlockedJobs(): Job<T, R>[] {
+    // Return a copy of jobs waiting for their dependencies
+    return [...this.blocked.values()];
   }
 
-  public getRunningJobs(): Job<T>[] {
+  public getRunningJobs(): Job<T, R>[] {
     // Return a copy of running jobs
     return [...this.runningJobs];
   }
@@ -200,3 +850,7 @@ export class Queue<T = any> extends EventEmitter {
     return this.id;
   }
 }
+
+function toRateLimiter(limit: RateLimit | RateLimiter): RateLimiter {
+  return limit instanceof RateLimiter ? limit : new RateLimiter(limit);
+}
@@ -1,61 +1,513 @@
 import { Queue } from './Queue';
-import { ManagerOptions } from './types';
+import { DeadLetterQueue } from './DeadLetterQueue';
+import { Scheduler } from './Scheduler';
+import { JobHistory } from './JobHistory';
+import { RateLimiter } from './RateLimiter';
+import { createQueueSelector } from './LoadBalancer';
+import { IdempotencyKeys } from './IdempotencyKeys';
+import { JobGroups } from './JobGroups';
+import { Autoscaler } from './Autoscaler';
+import { ThreadPoolOptions } from './processors/ThreadPool';
+import { SandboxPoolOptions } from './processors/SandboxPool';
+import { cloneJob, createClosedError, createFinishedJobHandle, createJobHandle, deserializeJob } from './Job';
+import {
+  CloseOptions, CloseResult,  DeadLetterEntry, FlowHandle, FlowJob, Job, JobHandle, JobHandler, JobInfo, JobOptions, JobProgress, ManagerOptions,
+  NamedQueueOptions, QueueSelector, QueueStats, RecoveryResult, RecurringJobInfo, RecurringJobOptions,
+  SignalCloseOptions
+} from './types';
 import { EventEmitter } from 'eventemitter3';
 
-export class QueueManager<T = any> extends EventEmitter {
-  private queues: Queue<T>[];
+// Events re-emitted by the manager with the index (or name) of the queue they came from
+const FORWARDED_EVENTS = [
+  'job:blocked', 'job:queued', 'job:delayed', 'job:started', 'job:progress', 'job:completed', 'job:failed', 'job:timeout',
+  'job:retrying', 'job:cancelled',
+  'worker:started', 'worker:paused', 'worker:resumed', 'worker:shutdown', 'store:error', 'rate:limited',
+  'thread:restarted', 'sandbox:restarted', 'concurrency:updated'
+];
+
+// Where a queue sits in the manager: in the pool of interchangeable queues, or a named queue
+interface QueueLocation {
+  queueIndex?: number;
+  queueName?: string;
+}
+
+export class QueueManager<T = any, R = any> extends EventEmitter {
+  private queues: Queue<T, R>[];
+  private namedQueues = new Map<string, Queue<T, R>>();
   private concurrencyPerQueue: number;
+  private poolConcurrency: number; // Follows concurrencyPerQueue, except where the autoscaler changed it for the pool alone
+  private concurrencyOverrides = new Map<number | string, number>(); // Queue index or name -> its own concurrency
+  private deadLetter: DeadLetterQueue<T>;
+  private scheduler: Scheduler<T>;
+  private history: JobHistory<T>;
+  private liveJobs = new Map<string, { job: Job<T, R>; queue: Queue<T, R>; location: QueueLocation }>();
+  private dependents = new Map<string, Set<string>>(); // Dependency ID -> IDs of blocked jobs
+  private setupProcessing?: (queue: Queue<T, R>) => void; // Set by process, processInThreads or processInSandbox
+  // Shared by all queues so the limits apply to the manager as a whole
+  private rateLimiter?: RateLimiter;
+  private typeRateLimiters: Record<string, RateLimiter> = {};
+  private selector: QueueSelector<T>;
+  private idempotencyKeys: IdempotencyKeys;
+  private groups: JobGroups;
+  private closing?: Promise<CloseResult<T, R>>;
+  private autoscaler?: Autoscaler;
+  private stealScheduled = false;
+  private retiringQueues = new Set<Queue<T, R>>(); // Removed from the pool, finishing their running jobs
 
   constructor(private options: ManagerOptions) {
     super();
+    this.rateLimiter = options.rateLimit && new RateLimiter(options.rateLimit);
+    for (const [type, limit] of Object.entries(options.typeRateLimits ?? {})) {
+      this.typeRateLimiters[type] = new RateLimiter(limit);
+    }
     this.concurrencyPerQueue = options.concurrencyPerQueue || 1;
-    this.queues = Array.from({ length: options.queueCount }, (_, i) => {
-      return new Queue({ 
-        defaultTimeoutMs: options.timeoutMs,
-        concurrency: this.concurrencyPerQueue
-      }, `queue-${i}`);
-    });
+    this.poolConcurrency = this.concurrencyPerQueue;
+    this.selector = createQueueSelector<T>(options.strategy, options.queueWeights);
+    this.groups = new JobGroups(options.groups);
+    this.deadLetter = new DeadLetterQueue<T>(options.deadLetterMaxSize);
+    this.scheduler = new Scheduler<T>((data, jobOptions) => this.addJob(data, jobOptions));
+    this.history = new JobHistory<T>(options.historyMaxSize, options.historyMaxAgeMs);
+    this.idempotencyKeys = new IdempotencyKeys(options.idempotencyWindowMs);
+    this.queues = Array.from({ length: options.queueCount }, (_, i) => this.createQueue(`queue-${i}`, { concurrency: this.poolConcurrency }));
+    for (const [name, queueOptions] of Object.entries(options.queues ?? {})) {
+      this.namedQueues.set(name, this.createQueue(name, queueOptions));
+      if (queueOptions.concurrency !== undefined) {
+        this.concurrencyOverrides.set(name, queueOptions.concurrency);
+      }
+    }
     
     // Set up event forwarding from individual queues to the manager
     this.setupEventForwarding();
+    
+    if (options.autoscale) {
+      this.autoscaler = new Autoscaler(this, options.autoscale);
+      ['autoscale:up', 'autoscale:down', 'autoscale:held'].forEach(eventName => {
+        this.autoscaler!.on(eventName, (data) => this.emit(eventName, data));
+      });
+      this.autoscaler.start();
+    }
+  }
+
+  private createQueue(id: string, overrides: NamedQueueOptions = {}): Queue<T, R> {
+    const queue = new Queue<T, R>({ 
+      defaultTimeoutMs: overrides.timeoutMs ?? this.options.timeoutMs,
+      concurrency: overrides.concurrency ?? this.concurrencyPerQueue,
+      agingIntervalMs: this.options.agingIntervalMs,
+      maxAgingBoost: this.options.maxAgingBoost,
+      retry: overrides.retry ?? this.options.retry,
+      store: this.options.store,
+      pollIntervalMs: this.options.pollIntervalMs,
+      rateLimit: this.rateLimiter,
+      typeRateLimits: this.typeRateLimiters,
+      groups: this.groups
+    }, id);
+    
+    this.setupProcessing?.(queue);
+    return queue;
   }
 
   private setupEventForwarding() {
-    this.queues.forEach((queue, index) => {
-      // Forward relevant events from individual queues to the manager
-      ['job:started', 'job:completed', 'job:failed', 'job:timeout', 'job:queued', 
-       'worker:started', 'worker:paused', 'worker:resumed', 'worker:shutdown'].forEach(eventName => {
-        queue.on(eventName, (data) => {
-          this.emit(eventName, { ...data, queueIndex: index });
-        });
+    this.queues.forEach((queue, queueIndex) => this.forwardEvents(queue, { queueIndex }));
+    this.namedQueues.forEach((queue, queueName) => this.forwardEvents(queue, { queueName }));
+    
+    ['schedule:added', 'schedule:removed', 'schedule:fired', 'schedule:skipped', 'schedule:error'].forEach(eventName => {
+      this.scheduler.on(eventName, (data) => this.emit(eventName, data));
+    });
+  }
+
+  private forwardEvents(queue: Queue<T, R>, location: QueueLocation) {
+    // Keep track of where each unfinished job lives, before anyone else hears about it
+    ['job:blocked', 'job:queued', 'job:delayed'].forEach(eventName => {
+      queue.on(eventName, (job: Job<T, R>) => {
+        this.history.delete(job.id);
+        this.liveJobs.set(job.id, { job, queue, location });
+        if (job.idempotencyKey !== undefined) {
+          this.idempotencyKeys.add(job.idempotencyKey, job.id);
+        }
+      });
+    });
+    
+    ['job:completed', 'job:failed', 'job:timeout', 'job:cancelled'].forEach(eventName => {
+      queue.on(eventName, (job: Job<T, R>) => {
+        this.liveJobs.delete(job.id);
+        this.history.add({ ...cloneJob(job), ...location });
+        if (job.idempotencyKey !== undefined) {
+          this.idempotencyKeys.finish(job.idempotencyKey, job.id, job.status === 'completed');
+        }
+      });
+    });
+    
+    // Forward relevant events from an individual queue to the manager
+    FORWARDED_EVENTS.forEach(eventName => {
+      queue.on(eventName, (data) => {
+        this.emit(eventName, { ...data, ...location });
       });
     });
+    
+    // Jobs only fail or time out here once they have no attempts left
+    ['job:failed', 'job:timeout'].forEach(eventName => {
+      queue.on(eventName, (job: Job<T, R>) => {
+        const entry = this.deadLetter.add(job, location.queueIndex, location.queueName);
+        this.emit('job:dead-lettered', entry);
+      });
+    });
+    
+    // Dependencies are resolved last, so a job is announced as blocked before it is unblocked
+    queue.on('job:blocked', (job: Job<T, R>) => {
+      for (const dependencyId of [...job.waitingOn!]) {
+        if (this.liveJobs.has(dependencyId)) {
+          const waiting = this.dependents.get(dependencyId) ?? new Set<string>();
+          waiting.add(job.id);
+          this.dependents.set(dependencyId, waiting);
+        } else {
+          queue.resolveDependency(job.id, dependencyId, this.history.get(dependencyId));
+        }
+      }
+    });
+    
+    ['job:completed', 'job:failed', 'job:timeout', 'job:cancelled'].forEach(eventName => {
+      queue.on(eventName, (job: Job<T, R>) => this.releaseDependents(job));
+    });
+    
+    // A backlog grew or a slot freed up somewhere in the pool
+    if (location.queueIndex !== undefined) {
+      [
+        'job:queued', 'job:completed', 'job:failed', 'job:timeout', 'job:cancelled', 'job:retrying',
+        'worker:resumed', 'concurrency:updated'
+      ].forEach(eventName => {
+        queue.on(eventName, () => this.scheduleWorkStealing());
+      });
+    }
   }
 
-  async addJob(data: T): Promise<string> {
-    // Find the emptiest queue (least number of total jobs pending + running)
-    const target = this.queues.reduce((a, b) => {
-      const totalJobsA = a.length + a.getRunningCount();
-      const totalJobsB = b.length + b.getRunningCount();
-      return totalJobsA <= totalJobsB ? a : b;
+  /**
+   * Balances the pool once the current call stack unwinds, so several
+   * changes in one tick are handled by a single pass
+   */
+  private scheduleWorkStealing() {
+    if (!this.options.workStealing || this.stealScheduled) return;
+    
+    this.stealScheduled = true;
+    queueMicrotask(() => {
+      this.stealScheduled = false;
+      this.stealJobs();
     });
+  }
+
+  /**
+   * Moves pending jobs from the pool queue with the most jobs waiting for a
+   * slot to queues that have free slots and nothing pending. Jobs keep their
+   * ID, handle and place in line (priority and enqueue time).
+   */
+  private stealJobs() {
+    this.queues.forEach((thief, thiefIndex) => {
+      const freeSlots = thief.getMaxConcurrency() - thief.getRunningCount();
+      if (!thief.isWorkerActive() || thief.length > 0 || freeSlots <= 0) return;
+      
+      let donorIndex = -1;
+      let mostWaiting = 0;
+      this.queues.forEach((queue, queueIndex) => {
+        if (!queue.isWorkerActive()) return;
+        const waiting = countWaitingForSlot(queue);
+        if (waiting > mostWaiting) {
+          donorIndex = queueIndex;
+          mostWaiting = waiting;
+        }
+      });
+      if (donorIndex === -1) return;
+      
+      for (const job of this.queues[donorIndex].takePendingJobs(Math.min(freeSlots, mostWaiting))) {
+        thief.enqueue(job);
+        this.emit('job:stolen', { ...job, queueIndex: thiefIndex, fromQueueIndex: donorIndex });
+      }
+    });
+  }
+  
+  /**
+   * Evens out the jobs waiting for a slot across the pool queues, e.g. after
+   * queues were added. Moved jobs keep their ID, handle and place in line,
+   * and are reported with 'job:stolen'.
+   */
+  rebalanceQueues() {
+    const candidates = this.queues
+      .map((queue, queueIndex) => ({ queue, queueIndex }))
+      .filter(({ queue }) => queue.isWorkerActive());
     
-    const jobId = await target.addJob(data);
-    return jobId;
+    while (candidates.length > 1) {
+      candidates.sort((a, b) => countWaitingForSlot(a.queue) - countWaitingForSlot(b.queue));
+      const from = candidates[candidates.length - 1];
+      const to = candidates[0];
+      
+      const surplus = Math.floor((countWaitingForSlot(from.queue) - countWaitingForSlot(to.queue)) / 2);
+      if (surplus <= 0) return;
+      
+      const jobs = from.queue.takePendingJobs(surplus);
+      if (jobs.length === 0) {
+        // Only jobs held back by their group are left there
+        candidates.pop();
+        continue;
+      }
+      for (const job of jobs) {
+        to.queue.enqueue(job);
+        this.emit('job:stolen', { ...job, queueIndex: to.queueIndex, fromQueueIndex: from.queueIndex });
+      }
+    }
+  }
+  
+  private releaseDependents(dependency: Job<T, R>) {
+    const waiting = this.dependents.get(dependency.id);
+    if (!waiting) return;
+    this.dependents.delete(dependency.id);
+    
+    for (const jobId of waiting) {
+      const live = this.liveJobs.get(jobId);
+      if (live) {
+        live.queue.resolveDependency(jobId, dependency.id, dependency);
+      }
+    }
+  }
+
+  /**
+   * Picks a pool queue for a job using the configured load balancing strategy
+   */
+  private selectQueue(data: T, options: JobOptions): Queue<T, R> {
+    const stats = this.queues.map((q, i) => this.queueStats(i, q));
+    const index = this.selector({ data, options }, stats);
+    
+    const queue = this.queues[index];
+    if (!queue) {
+      throw new Error(`Load balancer selected queue ${index}, but there are ${this.queues.length} queues`);
+    }
+    return queue;
+  }
+
+  /**
+   * Adds a job to the least loaded queue. Resolves as soon as the job is
+   * queued; use the handle's finished() to wait for the outcome.
+   */
+  async addJob(data: T, options: JobOptions = {}): Promise<JobHandle<R>> {
+    if (this.closing) {
+      throw createClosedError('Queue manager is closed');
+    }
+    
+    if (options.idempotencyKey !== undefined) {
+      const existing = this.getIdempotentJobHandle(options.idempotencyKey);
+      if (existing) {
+        this.emit('job:deduplicated', { jobId: existing.id, idempotencyKey: options.idempotencyKey });
+        return existing;
+      }
+    }
+    
+    for (const dependencyId of options.dependsOn ?? []) {
+      if (!this.liveJobs.has(dependencyId) && !this.history.get(dependencyId)) {
+        throw new Error(`Unknown dependency: ${dependencyId}`);
+      }
+    }
+    
+    const queueName = options.queue ?? this.options.router?.(data, options) ??
+      (options.type !== undefined ? this.options.routes?.[options.type] : undefined);
+    if (queueName === undefined) {
+      return this.selectQueue(data, options).addJob(data, options);
+    }
+    
+    const target = this.namedQueues.get(queueName);
+    if (!target) {
+      throw new Error(`Unknown queue: ${queueName}`);
+    }
+    return target.addJob(data, { ...options, queue: queueName });
+  }
+  
+  /**
+   * ID of the unfinished or recently completed job that was added with this
+   * idempotency key, if any
+   */
+  getJobIdByIdempotencyKey(idempotencyKey: string): string | undefined {
+    return this.getIdempotentJobHandle(idempotencyKey)?.id;
+  }
+  
+  private getIdempotentJobHandle(idempotencyKey: string): JobHandle<R> | undefined {
+    const jobId = this.idempotencyKeys.get(idempotencyKey);
+    if (jobId === undefined) return undefined;
+    
+    const live = this.liveJobs.get(jobId);
+    if (live) return createJobHandle(live.job);
+    
+    // Completed jobs can only be handed out while they are still in the history
+    const finished = this.history.get(jobId);
+    return finished && createFinishedJobHandle(finished);
+  }
+  
+  /**
+   * Picks the queue for a job that is put back in line, e.g. when recovered or
+   * redriven. Jobs return to their named queue while it still exists.
+   */
+  private queueFor(job: Job<T, R>): Queue<T, R> {
+    return (job.queue !== undefined && this.namedQueues.get(job.queue)) ||
+      this.selectQueue(job.data, { type: job.type, priority: job.priority, routingKey: job.routingKey });
   }
 
-  completeJob(jobId: string) {
-    for (const queue of this.queues) {
-      queue.completeJob(jobId);
+  /**
+   * Adds a tree of jobs where every job runs after all of its children have
+   * completed, and can read their results from `parentResults`
+   */
+  async addFlow(flow: FlowJob<T>): Promise<FlowHandle<R>> {
+    const children: FlowHandle<R>[] = [];
+    for (const child of flow.children ?? []) {
+      children.push(await this.addFlow(child));
+    }
+    
+    const job = await this.addJob(flow.data, {
+      ...flow.options,
+      dependsOn: children.map(child => child.job.id)
+    });
+    return { job, children };
+  }
+
+  /**
+   * Looks up a blocked, pending, delayed, running or recently finished job
+   */
+  getJob(jobId: string): JobInfo<T, R> | undefined {
+    const live = this.liveJobs.get(jobId);
+    if (live) {
+      return { ...cloneJob(live.job), ...live.location };
+    }
+    
+    return this.history.get(jobId);
+  }
+
+  /**
+   * Registers a job that is added to the queues on a cron expression or fixed
+   * interval. A schedule with the same name is replaced. Runs that can't be
+   * added (e.g. after close) emit 'schedule:error'.
+   */
+  addRecurringJob(name: string, data: T, options: RecurringJobOptions): RecurringJobInfo {
+    // Every run would fail otherwise
+    if (options.queue !== undefined && !this.namedQueues.has(options.queue)) {
+      throw new Error(`Unknown queue: ${options.queue}`);
+    }
+    return this.scheduler.add(name, data, options);
+  }
+
+  removeRecurringJob(name: string): boolean {
+    return this.scheduler.remove(name);
+  }
+
+  getRecurringJobs(): RecurringJobInfo[] {
+    return this.scheduler.list();
+  }
+
+  /**
+   * Re-hydrates the unfinished jobs of the configured store into the queues.
+   * Call it once at startup, before adding new jobs. Recovered jobs carry no
+   * completion callbacks, since the promises of the previous process are gone.
+   */
+  async recover(): Promise<RecoveryResult> {
+    const store = this.options.store;
+    if (!store) {
+      throw new Error('Cannot recover jobs without a job store');
+    }
+    
+    const result: RecoveryResult = { requeued: [], failed: [] };
+    const recoverRunning = this.options.recoverRunning ?? 'requeue';
+    
+    // Oldest first, so jobs are back in line before the jobs that depend on them
+    const jobs = (await store.loadAll())
+      .map(serialized => deserializeJob<T, R>(serialized))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    
+    for (const job of jobs) {      
+      // Predicates can't be stored, so fall back to the configured ones
+      if (job.retry) {
+        job.retry = { ...this.options.retry, ...job.retry };
+      }
+      
+      if (job.status === 'running') {
+        const action = typeof recoverRunning === 'function' ? recoverRunning(job) : recoverRunning;
+        
+        if (action === 'fail') {
+          job.status = 'failed';
+          job.completedAt = Date.now();
+          job.error = new Error('Job was interrupted by a restart');
+          await store.remove(job.id);
+          
+          this.history.add(cloneJob(job));
+          const entry = this.deadLetter.add(job);
+          this.emit('job:dead-lettered', entry);
+          result.failed.push(job.id);
+          continue;
+        }
+      }
+      
+      this.queueFor(job).enqueue(job);
+      this.emit('job:recovered', job);
+      result.requeued.push(job.id);
+    }
+    
+    return result;
+  }
+
+  /**
+   * Processes jobs of every queue in-process with the given handler. Jobs can
+   * still be completed or failed externally (e.g. through the webhook).
+   */
+  process(handler: JobHandler<T, R>) {
+    this.processAllQueues(queue => queue.process(handler));
+  }
+
+  /**
+   * Processes jobs of every queue on worker threads that load the processor
+   * module at `file`, each queue with its own pool (see Queue.processInThreads).
+   * Queues added later get a pool as well.
+   */
+  processInThreads(file: string, options: ThreadPoolOptions = {}) {
+    this.processAllQueues(queue => queue.processInThreads(file, options));
+  }
+
+  /**
+   * Processes jobs of every queue in child processes that load the processor
+   * module at `file`, each queue with its own pool (see Queue.processInSandbox).
+   * Queues added later get a pool as well.
+   */
+  processInSandbox(file: string, options: SandboxPoolOptions = {}) {
+    this.processAllQueues(queue => queue.processInSandbox(file, options));
+  }
+
+  private processAllQueues(setup: (queue: Queue<T, R>) => void) {
+    this.setupProcessing = setup;
+    this.allQueues().forEach(setup);
+  }
+
+  completeJob(jobId: string, result?: R) {
+    for (const queue of this.allQueues()) {
+      queue.completeJob(jobId, result);
     }
   }
 
   failJob(jobId: string, error?: Error) {
-    for (const queue of this.queues) {
+    for (const queue of this.allQueues()) {
       queue.failJob(jobId, error);
     }
   }
 
+  /**
+   * Records the progress of a running job, as a percentage or any details
+   * 
+   * @returns Whether a running job with this ID was found
+   */
+  reportProgress(jobId: string, progress: JobProgress): boolean {
+    return this.allQueues().some(queue => queue.reportProgress(jobId, progress));
+  }
+
+  /**
+   * Cancels a delayed, pending or running job. Cancelled jobs are kept in the
+   * history but are neither retried nor dead-lettered.
+   * 
+   * @returns Whether an unfinished job with this ID was found
+   */
+  cancelJob(jobId: string, reason?: string): boolean {
+    return this.allQueues().some(queue => queue.cancelJob(jobId, reason));
+  }
+
   updateQueueCount(newCount: number) {
     if (newCount <= 0) {
       throw new Error('Queue count must be greater than 0');
@@ -67,25 +519,15 @@ export class QueueManager<T = any> extends EventEmitter {
     if (newCount > currentCount) {
       const additionalQueues = Array.from(
         { length: newCount - currentCount }, 
-        (_, i) => new Queue({ 
-          defaultTimeoutMs: this.options.timeoutMs,
-          concurrency: this.concurrencyPerQueue 
-        }, `queue-${currentCount + i}`)
+        (_, i) => this.createQueue(`queue-${currentCount + i}`, { concurrency: this.poolConcurrency })
       );
       
       // Set up event forwarding for new queues
-      additionalQueues.forEach((queue, i) => {
-        const queueIndex = currentCount + i;
-        ['job:started', 'job:completed', 'job:failed', 'job:timeout', 'job:queued',
-         'worker:started', 'worker:paused', 'worker:resumed', 'worker:shutdown'].forEach(eventName => {
-          queue.on(eventName, (data) => {
-            this.emit(eventName, { ...data, queueIndex });
-          });
-        });
-      });
+      additionalQueues.forEach((queue, i) => this.forwardEvents(queue, { queueIndex: currentCount + i }));
       
       this.queues.push(...additionalQueues);
       this.options.queueCount = newCount;
+      this.scheduleWorkStealing();
       
       this.emit('queues:added', { 
         newCount, 
@@ -100,71 +542,288 @@ export class QueueManager<T = any> extends EventEmitter {
       const queuesToKeep = this.queues.slice(0, newCount);
       const queuesToRemove = this.queues.slice(newCount);
       
-      // Collect all pending jobs from queues to be removed
-      const pendingJobsToRedistribute = queuesToRemove.flatMap(queue => queue.getPendingJobs());
-      
-      // Shutdown the queues we're removing
-      queuesToRemove.forEach(queue => {
-        queue.shutdown();
-      });
-      
       // Update the queues array
       this.queues = queuesToKeep;
+      for (let i = newCount; i < currentCount; i++) {
+        this.concurrencyOverrides.delete(i);
+      }
       this.options.queueCount = newCount;
 
-      // Redistribute collected pending jobs to remaining queues
-      for (const job of pendingJobsToRedistribute) {
-        this.addJob(job.data);
+      // Move the waiting jobs to the remaining queues, keeping their IDs and promises,
+      // and let running ones finish where they are
+      let redistributedJobs = 0;
+      for (const queue of queuesToRemove) {
+        redistributedJobs += this.retireQueue(queue);
       }
       
       this.emit('queues:removed', { 
         newCount, 
         removedCount: currentCount - newCount,
-        redistributedJobs: pendingJobsToRedistribute.length
+        redistributedJobs
       });
     }
   }
 
+  /**
+   * Stops a queue that left the pool from starting jobs and moves its waiting
+   * jobs to the pool. The queue stays reachable (for completeJob, cancelJob,
+   * close and so on) until its running jobs finish; jobs it gets back for a
+   * retry in the meantime are moved too, and then it shuts down.
+   * 
+   * @returns The number of jobs moved right away
+   */
+  private retireQueue(queue: Queue<T, R>): number {
+    queue.pause();
+    const moveWaitingJobs = () => {
+      const jobs = queue.takeWaitingJobs();
+      for (const job of jobs) {
+        this.queueFor(job).enqueue(job);
+      }
+      return jobs.length;
+    };
+    
+    const moved = moveWaitingJobs();
+    const retire = () => {
+      this.retiringQueues.delete(queue);
+      // close() takes care of queues that were still draining
+      if (this.closing) return;
+      moveWaitingJobs();
+      queue.shutdown();
+    };
+    
+    if (queue.getRunningCount() === 0) {
+      retire();
+    } else {
+      this.retiringQueues.add(queue);
+      // Once a failed job that is retried has been put back in line
+      queue.once('queue:idle', () => queueMicrotask(retire));
+    }
+    return moved;
+  }
+
   pauseAllQueues() {
-    this.queues.forEach(queue => queue.pause());
+    this.allQueues().forEach(queue => queue.pause());
     this.emit('all:paused');
   }
   
   resumeAllQueues() {
-    this.queues.forEach(queue => queue.resume());
+    // Retiring queues stay paused
+    [...this.queues, ...this.namedQueues.values()].forEach(queue => queue.resume());
     this.emit('all:resumed');
   }
   
   shutdownAllQueues() {
-    this.queues.forEach(queue => queue.shutdown());
+    this.scheduler.stop();
+    this.autoscaler?.stop();
+    this.allQueues().forEach(queue => queue.shutdown());
     this.emit('all:shutdown');
   }
   
+  /**
+   * Gracefully shuts down: stops recurring jobs and new submissions, lets
+   * running jobs of every queue finish within `drainTimeoutMs`, then persists,
+   * fails or returns the jobs that are left (see Queue.close) and closes the store.
+   */
+  close(options: CloseOptions = {}): Promise<CloseResult<T, R>> {
+    if (!this.closing) {
+      // Checked before closing starts, so the manager keeps working after a bad call
+      if (options.remaining === 'persist' && !this.options.store) {
+        return Promise.reject(new Error('Cannot persist remaining jobs without a job store'));
+      }
+      this.closing = this.closeQueues(options);
+    }
+    return this.closing;
+  }
+  
+  private async closeQueues(options: CloseOptions): Promise<CloseResult<T, R>> {
+    this.scheduler.stop();
+    this.autoscaler?.stop();
+    this.emit('all:closing', options);
+    
+    const results = await Promise.all(this.allQueues().map(queue => queue.close(options)));
+    const result: CloseResult<T, R> = {
+      drained: results.every(r => r.drained),
+      persisted: results.flatMap(r => r.persisted),
+      failed: results.flatMap(r => r.failed),
+      returned: results.flatMap(r => r.returned)
+    };
+    
+    await this.options.store?.close?.();
+    this.emit('all:closed', result);
+    return result;
+  }
+  
+  /**
+   * Closes the manager when the process receives one of the signals, then
+   * exits (with code 1 if closing failed).
+   * 
+   * @returns Function that removes the signal handlers again
+   */
+  closeOnSignals(options: SignalCloseOptions = {}): () => void {
+    const { signals = ['SIGTERM', 'SIGINT'], exit = true, ...closeOptions } = options;
+    
+    const removeHandlers = () => signals.forEach(signal => process.off(signal, onSignal));
+    const onSignal = (signal: NodeJS.Signals) => {
+      removeHandlers();
+      this.emit('all:signal', { signal });
+      
+      this.close(closeOptions).then(
+        () => 0,
+        error => {
+          this.emit('close:error', { error });
+          return 1;
+        }
+      ).then(code => {
+        if (exit) process.exit(code);
+      });
+    };
+    
+    signals.forEach(signal => process.once(signal, onSignal));
+    return removeHandlers;
+  }
+  
+  /**
+   * Changes the concurrency of every queue that has no concurrency of its own
+   * (set with setQueueConcurrency or in the named queue's options). The change
+   * takes effect right away; each queue emits 'concurrency:updated'.
+   */
   updateConcurrencyPerQueue(newConcurrency: number) {
-    if (newConcurrency <= 0) {
-      throw new Error('Concurrency must be greater than 0');
+    if (!Number.isInteger(newConcurrency) || newConcurrency <= 0) {
+      throw new Error('Concurrency must be a positive integer');
     }
     
     this.concurrencyPerQueue = newConcurrency;
     this.options.concurrencyPerQueue = newConcurrency;
     
-    // We need to recreate all queues for the concurrency to take effect
-    this.updateQueueCount(this.queues.length);
+    this.updatePoolConcurrency(newConcurrency);
+    this.namedQueues.forEach((queue, queueName) => {
+      if (!this.concurrencyOverrides.has(queueName)) queue.setConcurrency(newConcurrency);
+    });
+  }
+
+  /**
+   * Like updateConcurrencyPerQueue, but only for the pool queues (and the
+   * ones added later); named queues keep their concurrency. Used by the autoscaler.
+   */
+  updatePoolConcurrency(newConcurrency: number) {
+    if (!Number.isInteger(newConcurrency) || newConcurrency <= 0) {
+      throw new Error('Concurrency must be a positive integer');
+    }
+    
+    this.poolConcurrency = newConcurrency;
+    this.queues.forEach((queue, queueIndex) => {
+      if (!this.concurrencyOverrides.has(queueIndex)) queue.setConcurrency(newConcurrency);
+    });
+  }
+
+  /**
+   * Gives one queue, by pool index or name, its own concurrency, which later
+   * updateConcurrencyPerQueue and updatePoolConcurrency calls leave alone.
+   * Pass `undefined` to make it follow them again.
+   */
+  setQueueConcurrency(queueId: number | string, concurrency: number | undefined) {
+    const queue = typeof queueId === 'number' ? this.queues[queueId] : this.namedQueues.get(queueId);
+    if (!queue) {
+      throw new Error(`Unknown queue: ${queueId}`);
+    }
+    
+    queue.setConcurrency(concurrency ?? (typeof queueId === 'number' ? this.poolConcurrency : this.concurrencyPerQueue));
+    if (concurrency === undefined) {
+      this.concurrencyOverrides.delete(queueId);
+    } else {
+      this.concurrencyOverrides.set(queueId, concurrency);
+    }
+  }
+
+
+  getDeadLetterJobs(offset?: number, limit?: number): DeadLetterEntry<T>[] {
+    return this.deadLetter.list(offset, limit);
+  }
+  
+  getDeadLetterJob(jobId: string): DeadLetterEntry<T> | undefined {
+    return this.deadLetter.get(jobId);
+  }
+  
+  removeDeadLetterJob(jobId: string): boolean {
+    return this.deadLetter.remove(jobId);
+  }
+  
+  /**
+   * Moves dead-lettered jobs back into the queues with a fresh set of attempts.
+   * Redrives every dead-lettered job when no IDs are given.
+   * 
+   * @returns IDs of the jobs that were redriven
+   */
+  redriveDeadLetterJobs(jobIds?: string[]): string[] {
+    const entries = jobIds
+      ? jobIds.map(id => this.deadLetter.get(id)).filter((e): e is DeadLetterEntry<T> => !!e)
+      : this.deadLetter.list();
     
-    this.emit('concurrency:updated', { newConcurrency });
+    return entries.map(({ job }) => {
+      this.deadLetter.remove(job.id);
+      
+      // The original promise has already settled, so the redriven job carries no callbacks
+      const redriven: Job<T, R> = {
+        ...job,
+        attempts: 0,
+        attemptHistory: [...job.attemptHistory],
+        enqueuedAt: undefined,
+        error: undefined,
+        startedAt: undefined,
+        completedAt: undefined,
+        // Wait for all dependencies again; those that already finished are resolved right away
+        waitingOn: job.dependsOn && [...new Set(job.dependsOn)],
+        parentResults: undefined
+      };
+      this.queueFor(redriven).enqueue(redriven);
+      
+      this.emit('job:redriven', redriven);
+      return job.id;
+    });
   }
 
-  getStats() {
-    return this.queues.map((q, i) => ({
-      queueId: i,
+  /**
+   * Stats of the pool queues (by index) followed by the named queues (by name)
+   */
+  getStats(): QueueStats[] {
+    return [
+      ...this.queues.map((q, i) => this.queueStats(i, q)),
+      ...[...this.namedQueues].map(([name, q]) => this.queueStats(name, q))
+    ];
+  }
+  
+  private queueStats(queueId: number | string, q: Queue<T, R>): QueueStats {
+    return {
+      queueId,
       length: q.length,
+      delayed: q.getDelayedCount(),
+      blocked: q.getBlockedCount(),
       running: q.getRunningCount(),
       maxConcurrency: q.getMaxConcurrency(),
       isActive: q.isWorkerActive()
-    }));
+    };
   }
 
-  getQueues(): Queue<T>[] {
+  getQueues(): Queue<T, R>[] {
     return this.queues;
   }
+
+  // Concurrency of the pool queues that have none of their own
+  getPoolConcurrency(): number {
+    return this.poolConcurrency;
+  }
+
+  getNamedQueue(name: string): Queue<T, R> | undefined {
+    return this.namedQueues.get(name);
+  }
+  
+  // Including queues that left the pool but still have running jobs
+  private allQueues(): Queue<T, R>[] {
+    return [...this.queues, ...this.namedQueues.values(), ...this.retiringQueues];
+  }
+}
+
+// Pending jobs beyond the free slots of their queue; negative when slots are free
+function countWaitingForSlot(queue: Queue): number {
+  return queue.length - Math.max(queue.getMaxConcurrency() - queue.getRunningCount(), 0);
 }
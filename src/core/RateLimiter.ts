@@ -0,0 +1,49 @@
+import { RateLimit } from './types';
+
+/**
+ * Token bucket that allows bursts of up to `max` job starts and refills
+ * continuously at `max` tokens per `intervalMs`.
+ *
+ * One limiter can be shared by several queues to enforce a common limit.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(readonly limit: RateLimit) {
+    if (!(limit.max > 0) || !(limit.intervalMs > 0)) {
+      throw new Error('Rate limit max and intervalMs must be greater than 0');
+    }
+    this.tokens = limit.max;
+  }
+
+  hasToken(): boolean {
+    this.refill();
+    return this.tokens >= 1;
+  }
+
+  /**
+   * Takes a token if one is available
+   */
+  tryTake(): boolean {
+    if (!this.hasToken()) return false;
+    this.tokens--;
+    return true;
+  }
+
+  /**
+   * Time until the next token is available (0 if one is available now)
+   */
+  msUntilToken(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil((1 - this.tokens) * this.limit.intervalMs / this.limit.max);
+  }
+
+  private refill() {
+    const now = Date.now();
+    const refilled = (now - this.lastRefill) * this.limit.max / this.limit.intervalMs;
+    this.tokens = Math.min(this.limit.max, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+}
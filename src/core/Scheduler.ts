@@ -0,0 +1,176 @@
+import { EventEmitter } from 'eventemitter3';
+import { JobHandle, JobOptions, RecurringJobInfo, RecurringJobOptions } from './types';
+import { CronExpression, getNextCronTime, parseCron } from '../utils/cron';
+
+interface Schedule<T> {
+  name: string;
+  data: T;
+  options: RecurringJobOptions;
+  jobOptions: JobOptions;
+  cron?: CronExpression;
+  preventOverlap: boolean;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  runCount: number;
+  skippedCount: number;
+  inFlight: number;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Submits jobs on cron expressions or fixed intervals. A run whose job can't
+ * be submitted emits 'schedule:error' and doesn't count towards `runCount`.
+ */
+export class Scheduler<T = any> extends EventEmitter {
+  private schedules = new Map<string, Schedule<T>>();
+
+  constructor(private submit: (data: T, options: JobOptions) => Promise<JobHandle>) {
+    super();
+  }
+
+  /**
+   * Registers a recurring job, replacing any existing schedule with the same name
+   */
+  add(name: string, data: T, options: RecurringJobOptions): RecurringJobInfo {
+    const { cron, everyMs, timezone, preventOverlap = true, ...jobOptions } = options;
+
+    if (!cron && !everyMs) {
+      throw new Error('A recurring job needs either a cron expression or everyMs');
+    }
+    if (everyMs !== undefined && (!Number.isFinite(everyMs) || everyMs <= 0)) {
+      throw new Error('everyMs must be greater than 0');
+    }
+
+    const schedule: Schedule<T> = {
+      name,
+      data,
+      options,
+      jobOptions,
+      cron: cron ? parseCron(cron) : undefined,
+      preventOverlap,
+      runCount: 0,
+      skippedCount: 0,
+      inFlight: 0,
+      timer: null
+    };
+
+    // Fail fast on an unknown timezone or an expression that never matches
+    schedule.nextRunAt = this.getNextRunAt(schedule, Date.now());
+
+    this.remove(name);
+    this.schedules.set(name, schedule);
+    this.arm(schedule);
+
+    const info = this.toInfo(schedule);
+    this.emit('schedule:added', info);
+    return info;
+  }
+
+  remove(name: string): boolean {
+    const schedule = this.schedules.get(name);
+    if (!schedule) return false;
+
+    if (schedule.timer) clearTimeout(schedule.timer);
+    this.schedules.delete(name);
+
+    this.emit('schedule:removed', { name });
+    return true;
+  }
+
+  get(name: string): RecurringJobInfo | undefined {
+    const schedule = this.schedules.get(name);
+    return schedule && this.toInfo(schedule);
+  }
+
+  list(): RecurringJobInfo[] {
+    return Array.from(this.schedules.values()).map(schedule => this.toInfo(schedule));
+  }
+
+  /**
+   * Stops all timers; schedules are kept and can be listed but no longer fire
+   */
+  stop() {
+    this.schedules.forEach(schedule => {
+      if (schedule.timer) clearTimeout(schedule.timer);
+      schedule.timer = null;
+    });
+  }
+
+  private arm(schedule: Schedule<T>) {
+    // setTimeout overflows past ~24.8 days, so wake up early and re-arm
+    const wait = Math.min(Math.max(schedule.nextRunAt! - Date.now(), 0), 0x7fffffff);
+
+    schedule.timer = setTimeout(() => {
+      schedule.timer = null;
+      if (Date.now() < schedule.nextRunAt!) {
+        this.arm(schedule);
+        return;
+      }
+      this.fire(schedule);
+    }, wait);
+  }
+
+  private fire(schedule: Schedule<T>) {
+    const firedAt = Date.now();
+
+    if (schedule.preventOverlap && schedule.inFlight > 0) {
+      schedule.skippedCount++;
+      this.emit('schedule:skipped', { name: schedule.name, firedAt, reason: 'overlap' });
+    } else {
+      schedule.lastRunAt = firedAt;
+      schedule.inFlight++;
+
+      this.submit(schedule.data, schedule.jobOptions)
+        .then(
+          handle => {
+            const runCount = ++schedule.runCount;
+            this.emit('schedule:fired', { name: schedule.name, firedAt, runCount, jobId: handle.id });
+            return handle.finished().catch(() => {
+              // Failures of the job are reported through the regular job events
+            });
+          },
+          error => {
+            // No job was added, so nothing else reports it
+            this.emit('schedule:error', { name: schedule.name, firedAt, error });
+          }
+        )
+        .finally(() => {
+          schedule.inFlight--;
+        });
+    }
+
+    // The schedule may have been removed by an event listener
+    if (this.schedules.get(schedule.name) !== schedule) return;
+
+    schedule.nextRunAt = this.getNextRunAt(schedule, firedAt);
+    this.arm(schedule);
+  }
+
+  private getNextRunAt(schedule: Schedule<T>, after: number): number {
+    if (schedule.cron) {
+      return getNextCronTime(schedule.cron, after, schedule.options.timezone);
+    }
+
+    // Stay on the original interval grid, skipping runs that were missed
+    const everyMs = schedule.options.everyMs!;
+    if (schedule.nextRunAt === undefined) return after + everyMs;
+
+    const missed = Math.floor((after - schedule.nextRunAt) / everyMs);
+    return schedule.nextRunAt + (Math.max(missed, 0) + 1) * everyMs;
+  }
+
+  private toInfo(schedule: Schedule<T>): RecurringJobInfo {
+    return {
+      name: schedule.name,
+      cron: schedule.options.cron,
+      everyMs: schedule.cron ? undefined : schedule.options.everyMs,
+      timezone: schedule.options.timezone,
+      preventOverlap: schedule.preventOverlap,
+      nextRunAt: schedule.timer ? schedule.nextRunAt : undefined,
+      lastRunAt: schedule.lastRunAt,
+      runCount: schedule.runCount,
+      skippedCount: schedule.skippedCount,
+      running: schedule.inFlight > 0
+    };
+  }
+}
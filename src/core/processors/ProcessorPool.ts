@@ -0,0 +1,193 @@
+import * as path from 'path';
+import { EventEmitter } from 'eventemitter3';
+
+// A worker thread or child process of a pool
+export interface PoolEntry {
+  ready: boolean; // Loaded the processor module
+  busy: boolean;
+}
+
+/**
+ * Source of the code that runs a processor in a worker thread or child
+ * process: `setup` defines `file`, the processor module, jobs arrive as
+ * 'message' events of `receiver`, and messages go back through `send`.
+ */
+export function processorSource(setup: string, receiver: string, send: string): string {
+  return `
+${setup}
+const loaded = require(file);
+const processor = typeof loaded === 'function' ? loaded : loaded && loaded.default;
+if (typeof processor !== 'function') {
+  throw new Error('Processor module ' + file + ' must export a function');
+}
+
+${receiver}.on('message', async (job) => {
+  const context = {
+    reportProgress: (progress) => {
+      // Same check as isJobProgress, which can't be required from here
+      if (typeof progress === 'number' ? !(progress >= 0 && progress <= 100) : typeof progress !== 'object' || progress === null) {
+        throw new Error('Progress must be a percentage between 0 and 100 or an object');
+      }
+      ${send}({ type: 'progress', jobId: job.id, progress });
+    }
+  };
+  try {
+    const result = await processor(job, context);
+    ${send}({ type: 'result', jobId: job.id, result });
+  } catch (error) {
+    const details = error instanceof Error
+      ? { name: error.name, message: error.message, stack: error.stack }
+      : { name: 'Error', message: String(error) };
+    ${send}({ type: 'error', jobId: job.id, error: details });
+  }
+});
+
+${send}({ type: 'ready' });
+`;
+}
+
+/**
+ * Bookkeeping shared by ThreadPool and SandboxPool: hands out free entries,
+ * starts new ones up to the pool size, queues callers beyond it, and
+ * replaces entries that die. Subclasses start, stop and run jobs on them.
+ */
+export abstract class ProcessorPool<E extends PoolEntry> extends EventEmitter {
+  protected readonly file: string;
+  protected entries: E[] = [];
+  protected closed = false;
+  private waiting: ((entry: E) => void)[] = [];
+  private maxSize: number;
+
+  // `label` names the pool in errors, e.g. 'Thread pool'
+  constructor(file: string, size: number, protected readonly label: string) {
+    super();
+    this.file = path.resolve(file);
+
+    if (!(size > 0)) {
+      throw new Error(`${label} size must be greater than 0`);
+    }
+    this.maxSize = size;
+  }
+
+  // Starts a thread or process; it joins the pool once returned
+  protected abstract start(): E;
+
+  // Stops an entry's thread or process, which still reports its exit to its listeners
+  protected abstract terminate(entry: E): Promise<void>;
+
+  // Drops the listeners of an entry that left the pool
+  protected abstract detach(entry: E): void;
+
+  // Reports that a working entry was replaced after it died or was stopped
+  protected abstract restarted(entry: E, reason: string): void;
+
+  // Whether an entry should be stopped instead of taking another job
+  protected isWornOut(_entry: E): boolean {
+    return false;
+  }
+
+  /**
+   * Stops all threads or processes. Jobs still running on them are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const entries = this.entries;
+    this.entries = [];
+    this.waiting = [];
+    await Promise.all(entries.map(entry => this.terminate(entry)));
+  }
+
+  get size() {
+    return this.entries.length;
+  }
+
+  /**
+   * Changes the number of threads or processes. Extra idle ones are stopped
+   * right away, busy ones once their job is done.
+   */
+  resize(size: number) {
+    if (!(size > 0)) {
+      throw new Error(`${this.label} size must be greater than 0`);
+    }
+    this.maxSize = size;
+
+    for (const entry of this.entries.filter(e => !e.busy).slice(0, this.entries.length - size)) {
+      this.remove(entry);
+    }
+    while (this.waiting.length > 0 && this.entries.length < size) {
+      this.release(this.spawn());
+    }
+  }
+
+  protected acquire(): Promise<E> {
+    const idle = this.entries.find(entry => !entry.busy);
+    if (idle) {
+      idle.busy = true;
+      return Promise.resolve(idle);
+    }
+
+    if (this.entries.length < this.maxSize) {
+      const entry = this.spawn();
+      entry.busy = true;
+      return Promise.resolve(entry);
+    }
+
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  protected release(entry: E) {
+    // Also when the pool was made smaller while the entry was busy
+    if (this.entries.length > this.maxSize || this.isWornOut(entry)) {
+      this.retire(entry);
+      return;
+    }
+
+    const next = this.waiting.shift();
+    if (next) {
+      next(entry);
+    } else {
+      entry.busy = false;
+    }
+  }
+
+  /**
+   * Drops an entry that died or was stopped and starts a new one in its
+   * place. One that never finished loading the processor is not restarted,
+   * so a broken module doesn't cause a restart loop.
+   */
+  protected replace(entry: E, reason: string) {
+    if (!this.remove(entry) || this.closed || this.entries.length >= this.maxSize) return;
+
+    if (entry.ready) {
+      const replacement = this.spawn();
+      this.restarted(entry, reason);
+      this.release(replacement);
+    } else if (this.waiting.length > 0) {
+      this.release(this.spawn());
+    }
+  }
+
+  // Stops an entry that is worn out or no longer fits in the pool
+  private retire(entry: E) {
+    if (!this.remove(entry)) return;
+    if (this.waiting.length > 0 && this.entries.length < this.maxSize) {
+      this.release(this.spawn());
+    }
+  }
+
+  private spawn(): E {
+    const entry = this.start();
+    this.entries.push(entry);
+    return entry;
+  }
+
+  private remove(entry: E): boolean {
+    const index = this.entries.indexOf(entry);
+    if (index === -1) return false;
+    this.entries.splice(index, 1);
+
+    this.detach(entry);
+    this.terminate(entry).catch(() => {});
+    return true;
+  }
+}
@@ -0,0 +1,226 @@
+import { ChildProcess, spawn } from 'child_process';
+import { Job, JobContext } from '../types';
+import { isJobProgress } from '../Job';
+import { ProcessorMessage, toError, toProcessorJob } from './messages';
+import { PoolEntry, ProcessorPool, processorSource } from './ProcessorPool';
+
+export interface SandboxPoolOptions {
+  /**
+   * Number of child processes (defaults to the queue's concurrency)
+   */
+  size?: number;
+
+  /**
+   * Heap limit of each child process in megabytes (--max-old-space-size)
+   */
+  maxMemoryMb?: number;
+
+  /**
+   * Jobs a child process runs before it is replaced by a fresh one.
+   * 1 runs every job in a new process. Unlimited by default.
+   */
+  maxJobsPerProcess?: number;
+
+  /**
+   * Characters of stdout and of stderr kept per job; older output is dropped (default 64 KiB)
+   */
+  maxOutputLength?: number;
+
+  /**
+   * Environment of the child processes. Defaults to only PATH, NODE_ENV and
+   * TZ from the parent's environment, so untrusted job code doesn't see its
+   * secrets. Pass `process.env` to hand over everything.
+   */
+  env?: NodeJS.ProcessEnv;
+
+  /**
+   * Node.js options for the child processes, e.g. ['-r', 'ts-node/register'] for TypeScript processors
+   */
+  execArgv?: string[];
+}
+
+// Runs in each child process: loads the processor module (passed as the first argument) and runs the jobs it is sent
+const CHILD_SOURCE = processorSource('const file = process.argv[1];', 'process', 'process.send');
+
+const DEFAULT_MAX_OUTPUT_LENGTH = 64 * 1024;
+
+// Passed on to the child processes unless `env` is given
+const DEFAULT_ENV_KEYS = ['PATH', 'NODE_ENV', 'TZ'];
+
+interface PoolChild extends PoolEntry {
+  child: ChildProcess;
+  pid?: number;
+  jobsRun: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Runs jobs in a pool of child processes that load a processor module, to
+ * isolate untrusted or leaky job code from the queue's process.
+ *
+ * The module exports `(job, context) => result` like a ThreadPool processor.
+ * Jobs and results are sent over IPC, so they must be JSON-serializable, and
+ * progress must be a percentage between 0 and 100 or an object. Processes
+ * get a minimal environment unless `env` says otherwise. Whatever a job
+ * writes to stdout and stderr is attached to it as `output`. When a job's
+ * signal aborts (timeout, cancellation, close) its process is killed, and
+ * processes that die or run out of memory are replaced.
+ *
+ * Emits 'sandbox:restarted' with `{ pid, reason }`.
+ */
+export class SandboxPool<T = any, R = any> extends ProcessorPool<PoolChild> {
+  constructor(file: string, private readonly options: SandboxPoolOptions & { size: number }) {
+    super(file, options.size, 'Sandbox pool');
+  }
+
+  /**
+   * Runs a job in the next free child process. Usable as a queue's JobHandler.
+   */
+  run = (job: Job<T, R>, context: JobContext): Promise<R> => {
+    if (this.closed) {
+      return Promise.reject(new Error('Sandbox pool is closed'));
+    }
+
+    return this.acquire().then(entry => new Promise<R>((resolve, reject) => {
+      const { child } = entry;
+      entry.jobsRun++;
+      entry.stdout = '';
+      entry.stderr = '';
+      job.output = undefined;
+      let done = false;
+
+      // Stops listening and attaches the output collected so far; false if the job already finished
+      const finish = () => {
+        if (done) return false;
+        done = true;
+        child.off('message', onMessage);
+        child.off('close', onClose);
+        context.signal.removeEventListener('abort', onAbort);
+        job.output = { stdout: entry.stdout, stderr: entry.stderr };
+        return true;
+      };
+
+      // Output written just before the reply may still be in the pipes
+      const settle = (settleJob: () => void) => {
+        setImmediate(() => {
+          if (!finish()) return;
+          this.release(entry);
+          settleJob();
+        });
+      };
+
+      const onMessage = (message: ProcessorMessage) => {
+        if (message.type === 'progress' && message.jobId === job.id) {
+          // Sandboxed code can send anything, and a throw here would crash the whole process
+          if (isJobProgress(message.progress)) context.reportProgress(message.progress);
+        } else if (message.type === 'result' && message.jobId === job.id) {
+          settle(() => resolve(message.result));
+        } else if (message.type === 'error' && message.jobId === job.id) {
+          settle(() => reject(toError(message.error)));
+        }
+      };
+
+      // Emitted once the process exited and its output was read
+      const onClose = (code: number | null, signal: NodeJS.Signals | null) => {
+        if (!finish()) return;
+        const reason = signal ? `killed with ${signal}` : `exited with code ${code}`;
+        this.replace(entry, reason);
+        reject(new Error(`Child process ${reason} while running job ${job.id}`));
+      };
+
+      const onAbort = () => {
+        if (!finish()) return;
+        this.replace(entry, 'job aborted');
+        reject(context.signal.reason);
+      };
+
+      if (context.signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      child.on('message', onMessage);
+      child.on('close', onClose);
+      context.signal.addEventListener('abort', onAbort);
+
+      child.send(toProcessorJob(job), error => {
+        // The process died before the job reached it
+        if (!error || !finish()) return;
+        this.replace(entry, error.message);
+        reject(error);
+      });
+    }));
+  };
+
+  protected start(): PoolChild {
+    const execArgv = [...(this.options.execArgv ?? [])];
+    if (this.options.maxMemoryMb !== undefined) {
+      execArgv.push(`--max-old-space-size=${this.options.maxMemoryMb}`);
+    }
+
+    const child = spawn(process.execPath, [...execArgv, '-e', CHILD_SOURCE, this.file], {
+      stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+      env: this.options.env ?? defaultEnv()
+    });
+    const entry: PoolChild = { child, pid: child.pid, ready: false, busy: false, jobsRun: 0, stdout: '', stderr: '' };
+    const maxLength = this.options.maxOutputLength ?? DEFAULT_MAX_OUTPUT_LENGTH;
+
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => {
+      entry.stdout = (entry.stdout + chunk).slice(-maxLength);
+    });
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (chunk: string) => {
+      entry.stderr = (entry.stderr + chunk).slice(-maxLength);
+    });
+
+    child.on('message', (message: ProcessorMessage) => {
+      if (message.type === 'ready') entry.ready = true;
+    });
+    // Failing to start, and deaths of idle processes (jobs handle their own)
+    child.on('error', error => {
+      if (!entry.busy) this.replace(entry, error.message);
+    });
+    child.on('close', (code, signal) => {
+      if (!entry.busy) this.replace(entry, signal ? `killed with ${signal}` : `exited with code ${code}`);
+    });
+
+    return entry;
+  }
+
+  protected terminate(entry: PoolChild): Promise<void> {
+    return stop(entry.child);
+  }
+
+  protected detach(entry: PoolChild) {
+    entry.child.removeAllListeners();
+  }
+
+  protected restarted(entry: PoolChild, reason: string) {
+    this.emit('sandbox:restarted', { pid: entry.pid, reason });
+  }
+
+  // Ran its share of jobs
+  protected isWornOut(entry: PoolChild): boolean {
+    const { maxJobsPerProcess } = this.options;
+    return maxJobsPerProcess !== undefined && entry.jobsRun >= maxJobsPerProcess;
+  }
+}
+
+function defaultEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of DEFAULT_ENV_KEYS) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  return env;
+}
+
+function stop(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) return Promise.resolve();
+
+  return new Promise(resolve => {
+    child.once('exit', () => resolve());
+    child.kill('SIGKILL');
+  });
+}
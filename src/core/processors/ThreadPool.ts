@@ -0,0 +1,162 @@
+import { ResourceLimits, Worker } from 'worker_threads';
+import { Job, JobContext } from '../types';
+import { isJobProgress } from '../Job';
+import { ProcessorMessage, toError, toProcessorJob } from './messages';
+import { PoolEntry, ProcessorPool, processorSource } from './ProcessorPool';
+
+export interface ThreadPoolOptions {
+  /**
+   * Number of worker threads (defaults to the queue's concurrency)
+   */
+  size?: number;
+
+  /**
+   * Heap and stack limits of each worker thread
+   */
+  resourceLimits?: ResourceLimits;
+
+  /**
+   * Node.js options for the worker threads, e.g. ['-r', 'ts-node/register'] for TypeScript processors
+   */
+  execArgv?: string[];
+}
+
+// Runs inside each worker: loads the processor module and runs the jobs it is sent
+const WORKER_SOURCE = processorSource(
+  "const { parentPort, workerData } = require('worker_threads');\nconst file = workerData.file;",
+  'parentPort',
+  'parentPort.postMessage'
+);
+
+interface PoolWorker extends PoolEntry {
+  worker: Worker;
+  threadId: number; // Kept because worker.threadId is -1 once the thread exited
+}
+
+/**
+ * Runs jobs on a pool of `worker_threads` workers that load a processor
+ * module, so CPU-heavy jobs don't block the main event loop.
+ *
+ * The module exports `(job, context) => result` (as `module.exports` or
+ * `default`). Jobs are copied into the worker with the structured clone
+ * algorithm, and results, errors and progress reports are sent back.
+ * Progress must be a percentage between 0 and 100 or an object, otherwise
+ * `reportProgress` throws in the processor. When a job's signal aborts
+ * (timeout, cancellation, close) its worker is terminated, which stops even
+ * synchronous work, and replaced. Workers that crash are restarted as well.
+ *
+ * Emits 'thread:restarted' with `{ threadId, reason }`.
+ */
+export class ThreadPool<T = any, R = any> extends ProcessorPool<PoolWorker> {
+  constructor(file: string, private readonly options: ThreadPoolOptions & { size: number }) {
+    super(file, options.size, 'Thread pool');
+  }
+
+  /**
+   * Runs a job on the next free worker. Usable as a queue's JobHandler.
+   */
+  run = (job: Job<T, R>, context: JobContext): Promise<R> => {
+    if (this.closed) {
+      return Promise.reject(new Error('Thread pool is closed'));
+    }
+
+    return this.acquire().then(entry => new Promise<R>((resolve, reject) => {
+      const { worker } = entry;
+
+      const finish = (release: boolean) => {
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        context.signal.removeEventListener('abort', onAbort);
+        if (release) this.release(entry);
+      };
+
+      const onMessage = (message: ProcessorMessage) => {
+        if (message.type === 'ready') {
+          entry.ready = true;
+        } else if (message.type === 'progress' && message.jobId === job.id) {
+          // The worker checks too, but a throw here would crash the whole process
+          if (isJobProgress(message.progress)) context.reportProgress(message.progress);
+        } else if (message.type === 'result' && message.jobId === job.id) {
+          finish(true);
+          resolve(message.result);
+        } else if (message.type === 'error' && message.jobId === job.id) {
+          finish(true);
+          reject(toError(message.error));
+        }
+      };
+
+      const onError = (error: Error) => {
+        finish(false);
+        this.replace(entry, error.message);
+        reject(error);
+      };
+
+      const onExit = (code: number) => {
+        finish(false);
+        this.replace(entry, `exited with code ${code}`);
+        reject(new Error(`Worker thread exited with code ${code} while running job ${job.id}`));
+      };
+
+      // Nothing short of terminating the thread stops a synchronous processor
+      const onAbort = () => {
+        finish(false);
+        this.replace(entry, 'job aborted');
+        reject(context.signal.reason);
+      };
+
+      if (context.signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      context.signal.addEventListener('abort', onAbort);
+
+      try {
+        worker.postMessage(toProcessorJob(job));
+      } catch (error) {
+        // Job data that can't be cloned
+        finish(true);
+        reject(error);
+      }
+    }));
+  };
+
+  protected start(): PoolWorker {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { file: this.file },
+      resourceLimits: this.options.resourceLimits,
+      execArgv: this.options.execArgv
+    });
+    const entry: PoolWorker = { worker, threadId: worker.threadId, ready: false, busy: false };
+
+    worker.on('message', (message: ProcessorMessage) => {
+      if (message.type === 'ready') entry.ready = true;
+    });
+    // Crashes of idle workers (jobs handle their own)
+    worker.on('error', error => {
+      if (!entry.busy) this.replace(entry, error.message);
+    });
+    worker.on('exit', code => {
+      if (!entry.busy) this.replace(entry, `exited with code ${code}`);
+    });
+
+    return entry;
+  }
+
+  protected async terminate(entry: PoolWorker): Promise<void> {
+    await entry.worker.terminate();
+  }
+
+  protected detach(entry: PoolWorker) {
+    entry.worker.removeAllListeners();
+  }
+
+  protected restarted(entry: PoolWorker, reason: string) {
+    this.emit('thread:restarted', { threadId: entry.threadId, reason });
+  }
+}
@@ -0,0 +1,29 @@
+import { Job } from '../types';
+
+// What a processor receives: a copy of the job that can be sent to another thread or process
+export type ProcessorJob<T = any> = Pick<Job<T>, 'id' | 'data' | 'type' | 'attempts' | 'parentResults'>;
+
+// Sent back by the code running a processor
+export type ProcessorMessage =
+  | { type: 'ready' }
+  | { type: 'progress'; jobId: string; progress: any }
+  | { type: 'result'; jobId: string; result: any }
+  | { type: 'error'; jobId: string; error: { name: string; message: string; stack?: string } };
+
+export function toProcessorJob<T, R>(job: Job<T, R>): ProcessorJob<T> {
+  return {
+    id: job.id,
+    data: job.data,
+    type: job.type,
+    attempts: job.attempts,
+    parentResults: job.parentResults
+  };
+}
+
+// Rebuilds an error thrown by a processor
+export function toError(details: { name: string; message: string; stack?: string }): Error {
+  const error = new Error(details.message);
+  error.name = details.name;
+  error.stack = details.stack;
+  return error;
+}
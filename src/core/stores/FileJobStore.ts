@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JobStore, SerializedJob } from '../types';
+
+export interface FileJobStoreOptions {
+  /**
+   * Rewrite the journal once it holds this many more entries than live jobs (defaults to 1000)
+   */
+  compactThreshold?: number;
+  
+  /**
+   * Flush every write to disk before returning (defaults to false)
+   */
+  fsync?: boolean;
+}
+
+type JournalEntry =
+  | { op: 'save'; job: SerializedJob }
+  | { op: 'remove'; id: string };
+
+/**
+ * Job store backed by an append-only journal file.
+ * 
+ * Every save or removal is appended as one JSON line, and the journal is
+ * replayed when the store is opened. A partially written last line (from a
+ * crash mid-write) is cut off, so new entries start on a line of their own.
+ * Once enough stale entries pile up, the journal is compacted by writing the
+ * live jobs to a new file and renaming it over the old one.
+ */
+export class FileJobStore implements JobStore {
+  private jobs = new Map<string, SerializedJob>();
+  private fd: number;
+  private entryCount = 0;
+  private readonly compactThreshold: number;
+  private readonly fsync: boolean;
+
+  constructor(private readonly filePath: string, options: FileJobStoreOptions = {}) {
+    this.compactThreshold = options.compactThreshold ?? 1000;
+    this.fsync = options.fsync ?? false;
+    
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.replay();
+    this.fd = fs.openSync(filePath, 'a');
+  }
+
+  save(job: SerializedJob) {
+    this.jobs.set(job.id, job);
+    this.append({ op: 'save', job });
+  }
+
+  remove(jobId: string) {
+    if (!this.jobs.delete(jobId)) return;
+    this.append({ op: 'remove', id: jobId });
+  }
+
+  loadAll(): SerializedJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * Rewrites the journal so it only contains the live jobs
+   */
+  compact() {
+    const tempPath = `${this.filePath}.tmp`;
+    const lines = Array.from(this.jobs.values())
+      .map(job => JSON.stringify({ op: 'save', job }) + '\n')
+      .join('');
+    
+    fs.writeFileSync(tempPath, lines);
+    fs.closeSync(this.fd);
+    fs.renameSync(tempPath, this.filePath);
+    
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.entryCount = this.jobs.size;
+  }
+
+  close() {
+    fs.closeSync(this.fd);
+  }
+
+  private append(entry: JournalEntry) {
+    fs.writeSync(this.fd, JSON.stringify(entry) + '\n');
+    if (this.fsync) fs.fsyncSync(this.fd);
+    
+    this.entryCount++;
+    if (this.entryCount - this.jobs.size >= this.compactThreshold) {
+      this.compact();
+    }
+  }
+
+  private replay() {
+    if (!fs.existsSync(this.filePath)) return;
+    
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+    if (complete.length < content.length) {
+      // Torn write from a crash; the next append would otherwise continue it
+      fs.truncateSync(this.filePath, Buffer.byteLength(complete));
+    }
+    
+    for (const line of complete.split('\n')) {
+      if (!line.trim()) continue;
+      
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue; // Corrupt line
+      }
+      
+      if (entry.op === 'save') {
+        this.jobs.set(entry.job.id, entry.job);
+      } else if (entry.op === 'remove') {
+        this.jobs.delete(entry.id);
+      }
+      this.entryCount++;
+    }
+  }
+}
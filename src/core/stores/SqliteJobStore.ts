@@ -0,0 +1,78 @@
+import { JobStore, SerializedJob } from '../types';
+
+/**
+ * The subset of a synchronous SQLite driver used by the store. Both
+ * `better-sqlite3` databases and `node:sqlite`'s `DatabaseSync` fit this shape.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: any[]): unknown;
+    all(...params: any[]): unknown[];
+  };
+  close?(): unknown;
+}
+
+export interface SqliteJobStoreOptions {
+  /**
+   * Table used for the jobs (defaults to 'turntable_jobs'), created if missing
+   */
+  tableName?: string;
+}
+
+/**
+ * Job store backed by a SQLite table, with one row per unfinished job.
+ * 
+ * The driver is passed in rather than bundled, so pick whichever one your
+ * application already uses:
+ * 
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * const store = new SqliteJobStore(new Database('jobs.db'));
+ * ```
+ */
+export class SqliteJobStore implements JobStore {
+  private readonly upsertStatement: ReturnType<SqliteDatabase['prepare']>;
+  private readonly deleteStatement: ReturnType<SqliteDatabase['prepare']>;
+  private readonly selectStatement: ReturnType<SqliteDatabase['prepare']>;
+
+  constructor(private readonly db: SqliteDatabase, options: SqliteJobStoreOptions = {}) {
+    const table = options.tableName ?? 'turntable_jobs';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+    
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        job TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+    
+    this.upsertStatement = db.prepare(`
+      INSERT INTO ${table} (id, status, job, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET status = excluded.status, job = excluded.job, updated_at = excluded.updated_at
+    `);
+    this.deleteStatement = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    this.selectStatement = db.prepare(`SELECT job FROM ${table} ORDER BY rowid`);
+  }
+
+  save(job: SerializedJob) {
+    this.upsertStatement.run(job.id, job.status, JSON.stringify(job), Date.now());
+  }
+
+  remove(jobId: string) {
+    this.deleteStatement.run(jobId);
+  }
+
+  loadAll(): SerializedJob[] {
+    const rows = this.selectStatement.all() as Array<{ job: string }>;
+    return rows.map(row => JSON.parse(row.job));
+  }
+
+  close() {
+    this.db.close?.();
+  }
+}
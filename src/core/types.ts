@@ -1,28 +1,305 @@
-export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'timed_out';
+import type { RateLimiter } from './RateLimiter';
+import type { JobGroups } from './JobGroups';
 
-export interface Job<T = any> {
+export type JobStatus = 'blocked' | 'delayed' | 'pending' | 'running' | 'completed' | 'failed' | 'timed_out' | 'cancelled';
+
+// Named priority levels; numeric priorities are also accepted (higher runs first)
+export type JobPriorityLevel = 'critical' | 'high' | 'normal' | 'low';
+
+// What happens to a job when one of its dependencies fails, times out or is cancelled
+export type DependencyFailureAction = 'fail' | 'continue';
+
+export type BackoffType = 'fixed' | 'exponential' | 'jitter';
+
+export interface BackoffOptions {
+  type: BackoffType;
+  delayMs: number; // Base delay between attempts
+  maxDelayMs?: number; // Upper bound for exponential and jittered delays
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first run, default = 1 (no retries)
+  backoff?: BackoffOptions | number; // A number is a fixed delay in ms
+  // Error names/codes (strings) or message patterns (RegExp) that may be retried,
+  // or a predicate. Timeouts fail with a 'JobTimeoutError'. Default = retry every error
+  retryOn?: Array<string | RegExp> | ((error: Error, job: Job) => boolean);
+}
+
+export interface JobAttempt {
+  attempt: number;
+  startedAt: number;
+  endedAt: number;
+  status: 'failed' | 'timed_out';
+  error?: string;
+  retryDelayMs?: number; // Set when another attempt was scheduled
+}
+
+export interface Job<T = any, R = any> {
   id: string;
   data: T;
+  type?: string;
+  queue?: string; // Named queue the job was routed to
+  routingKey?: string;
+  idempotencyKey?: string;
+  groupKey?: string;
   timeoutMs?: number;
+  priority: number;
   createdAt: number;
+  enqueuedAt?: number;
+  runAt?: number; // Job is held in the 'delayed' state until this time
   status: JobStatus;
   startedAt?: number;
   completedAt?: number;
   timeoutRef?: NodeJS.Timeout;
   error?: Error;
+  attempts: number;
+  attemptHistory: JobAttempt[];
+  retry?: RetryPolicy;
+  result?: R;
+  progress?: JobProgress; // Latest progress reported while running
+  output?: JobOutput; // What the latest attempt wrote, for jobs run in a sandbox
+  dependsOn?: string[]; // IDs of jobs that must finish before this one runs
+  waitingOn?: string[]; // Dependencies that have not finished yet; the job is 'blocked' until empty
+  parentResults?: Record<string, any>; // Results of completed dependencies, by job ID
+  onDependencyFailure?: DependencyFailureAction;
   
   // Callback-style for better threading model
   onComplete?: () => void;
   onError?: (err: Error) => void;
 }
 
+// Console output of a job run in a child process
+export interface JobOutput {
+  stdout: string;
+  stderr: string;
+}
+
+// Returned when a job is added, without waiting for it to run
+export interface JobHandle<R = any> {
+  id: string;
+  status(): JobStatus;
+  finished(): Promise<R>; // Resolves with the result, rejects with the error once the job gives up
+}
+
+// Snapshot of a job as reported by QueueManager.getJob
+export interface JobInfo<T = any, R = any> extends Omit<Job<T, R>, 'timeoutRef' | 'onComplete' | 'onError'> {
+  queueIndex?: number; // Set for jobs in the pool of interchangeable queues
+  queueName?: string; // Set for jobs in a named queue
+}
+
+// Plain representation of a job, safe to send over HTTP or write to disk
+export interface SerializedJob<T = any, R = any> extends Omit<Job<T, R>, 'timeoutRef' | 'error' | 'onComplete' | 'onError'> {
+  error?: { name: string; message: string; stack?: string };
+}
+
+export interface DeadLetterEntry<T = any> {
+  job: Job<T>; // Copy of the job as it was when it gave up
+  queueIndex?: number; // Unset for jobs of named queues and jobs failed while recovering from a store
+  queueName?: string;
+  reason: 'failed' | 'timed_out';
+  deadLetteredAt: number;
+}
+
+/**
+ * Durable storage that queues write through to, so jobs survive restarts.
+ * Only unfinished jobs are kept: finished jobs are removed.
+ */
+export interface JobStore {
+  save(job: SerializedJob): void | Promise<void>; // Insert or update
+  remove(jobId: string): void | Promise<void>;
+  loadAll(): SerializedJob[] | Promise<SerializedJob[]>;
+  close?(): void | Promise<void>;
+}
+
+// What to do on recovery with a job that was running when the process stopped
+export type RecoverRunningAction = 'requeue' | 'fail';
+
+export interface RecoveryResult {
+  requeued: string[];
+  failed: string[];
+}
+
+// What close() does with jobs that are still waiting (or running once the drain timeout passed):
+// leave them in the store for recovery, fail them, or hand them back to the caller
+export type CloseAction = 'persist' | 'fail' | 'return';
+
+export interface CloseOptions {
+  drainTimeoutMs?: number; // How long to wait for running jobs, default = 30000
+  remaining?: CloseAction; // default = 'persist' with a store, otherwise 'fail'
+}
+
+export interface SignalCloseOptions extends CloseOptions {
+  signals?: NodeJS.Signals[]; // default = ['SIGTERM', 'SIGINT']
+  exit?: boolean; // Exit the process once closed, default = true
+}
+
+export interface CloseResult<T = any, R = any> {
+  drained: boolean; // Whether all running jobs finished before the drain timeout
+  persisted: string[]; // IDs of jobs left in the store
+  failed: string[]; // IDs of jobs that were failed
+  returned: Job<T, R>[]; // Jobs handed back, with their handles still unsettled
+}
+
+// Percentage (0-100) or any progress details a worker wants to share
+export type JobProgress = number | Record<string, any>;
+
+export interface JobContext {
+  reportProgress(progress: JobProgress): void;
+  signal: AbortSignal; // Aborted when the attempt is cancelled or times out
+}
+
+// In-process job processor: the resolved value becomes the job's result and a thrown error fails it
+export type JobHandler<T = any, R = any> = (job: Job<T, R>, context: JobContext) => Promise<R> | R;
+
+export interface JobOptions {
+  type?: string; // Job type, used for routing and per-type rate limits
+  queue?: string; // Name of the queue to add the job to, bypassing routing
+  routingKey?: string; // Jobs with the same key go to the same pool queue under the 'consistent-hash' strategy
+  idempotencyKey?: string; // QueueManager returns the existing job instead of adding a duplicate with the same key
+  groupKey?: string; // Jobs with the same key run in the order they were added, one at a time by default
+  timeoutMs?: number;
+  priority?: JobPriorityLevel | number; // default = 'normal'
+  retry?: Partial<RetryPolicy>; // Overrides the queue's retry policy
+  delayMs?: number; // Run no earlier than this many ms from now
+  runAt?: Date | number; // Run no earlier than this time (takes precedence over delayMs)
+  dependsOn?: string[]; // Run only after these jobs have finished (resolved by QueueManager)
+  onDependencyFailure?: DependencyFailureAction; // default = 'fail'
+}
+
+// A job together with the jobs that must complete before it runs
+export interface FlowJob<T = any> {
+  data: T;
+  options?: Omit<JobOptions, 'dependsOn'>;
+  children?: FlowJob<T>[];
+}
+
+export interface FlowHandle<R = any> {
+  job: JobHandle<R>;
+  children: FlowHandle<R>[];
+}
+
+export interface RecurringJobOptions extends Omit<JobOptions, 'delayMs' | 'runAt' | 'dependsOn' | 'onDependencyFailure' | 'idempotencyKey'> {
+  cron?: string; // 5-field cron expression or macro such as '@hourly'
+  everyMs?: number; // Fixed interval, used when no cron expression is given
+  timezone?: string; // IANA timezone for cron expressions, default = process timezone
+  preventOverlap?: boolean; // Skip a run while the previous one is unfinished, default = true
+}
+
+export interface RecurringJobInfo {
+  name: string;
+  cron?: string;
+  everyMs?: number;
+  timezone?: string;
+  preventOverlap: boolean;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  runCount: number; // Jobs added so far; runs that failed to add one are not counted
+  skippedCount: number;
+  running: boolean;
+}
+
+// Token bucket: bursts of up to `max` job starts, refilled at `max` per `intervalMs`
+export interface RateLimit {
+  max: number;
+  intervalMs: number;
+}
+
+export interface GroupConcurrencyOptions {
+  defaultLimit?: number; // Jobs of one group that may run at once, default = 1
+  limits?: Record<string, number>; // Overrides per group key
+}
+
 export interface QueueOptions {
   concurrency?: number; // default = 1
   defaultTimeoutMs?: number;
+  agingIntervalMs?: number; // Waiting time that bumps a pending job by one priority level, default = 60000 (0 disables aging)
+  maxAgingBoost?: number; // Maximum number of levels a job can gain through aging, default = 3
+  retry?: RetryPolicy;
+  store?: JobStore;
+  pollIntervalMs?: number; // Only dispatch jobs on this interval instead of as soon as they are runnable (legacy)
+  rateLimit?: RateLimit | RateLimiter; // Limits job starts; pass a RateLimiter to share the limit with other queues
+  typeRateLimits?: Record<string, RateLimit | RateLimiter>; // Limits job starts per job type
+  groups?: GroupConcurrencyOptions | JobGroups; // Concurrency per groupKey; pass a JobGroups to share it with other queues
+}
+
+export interface QueueStats {
+  queueId: number | string; // Index of a pool queue or name of a named queue
+  length: number; // Pending jobs
+  delayed: number;
+  blocked: number;
+  running: number;
+  maxConcurrency: number;
+  isActive: boolean;
+}
+
+export type LoadBalancingStrategy = 'least-loaded' | 'round-robin' | 'weighted' | 'random' | 'consistent-hash';
+
+// Custom load balancing: returns the index of the pool queue a new job goes to
+export type QueueSelector<T = any> = (job: { data: T; options: JobOptions }, stats: QueueStats[]) => number;
+
+// Settings of a named queue; anything left out falls back to the manager's options
+export interface NamedQueueOptions {
+  concurrency?: number;
+  timeoutMs?: number;
+  retry?: RetryPolicy;
+}
+
+export interface AutoscaleOptions {
+  minQueues?: number; // default = 1
+  maxQueues?: number; // default = the initial queueCount
+  minConcurrency?: number; // Concurrency per queue; both default to concurrencyPerQueue, which keeps it fixed
+  maxConcurrency?: number;
+  step?: number; // Queues or concurrency added or removed per decision, default = 1
+  intervalMs?: number; // How often to evaluate, default = 5 seconds
+  scaleUpBacklog?: number; // Pending jobs per slot that call for more capacity, default = 1
+  scaleUpWaitMs?: number; // Wait of the oldest pending job that calls for more capacity, default = 10 seconds
+  scaleUpUtilization?: number; // Share of slots that must be busy to scale up, default = 0.8
+  scaleDownUtilization?: number; // Scale down when no job waits and at most this share of slots is busy, default = 0.3
+  scaleUpCooldownMs?: number; // Minimum time since the last change before scaling up, default = 30 seconds
+  scaleDownCooldownMs?: number; // Minimum time since the last change before scaling down, default = 2 minutes
+}
+
+// What the autoscaler measured over the pool queues
+export interface AutoscaleMetrics {
+  queueCount: number;
+  concurrencyPerQueue: number;
+  pending: number;
+  running: number;
+  capacity: number; // Sum of the queues' concurrency
+  utilization: number; // running / capacity
+  oldestWaitMs: number; // How long the oldest pending job has waited, 0 without any
+}
+
+export interface AutoscaleDecision {
+  direction: 'up' | 'down';
+  reason: string; // Why scaling was called for, or why it was held back
+  metrics: AutoscaleMetrics;
+  queueCount: number; // After the change
+  concurrencyPerQueue: number;
 }
 
 export interface ManagerOptions {
   queueCount: number;
   timeoutMs?: number;
   concurrencyPerQueue?: number; // Default = 1 
+  agingIntervalMs?: number;
+  maxAgingBoost?: number;
+  retry?: RetryPolicy;
+  deadLetterMaxSize?: number; // Oldest entries are dropped beyond this, default = 1000
+  store?: JobStore;
+  pollIntervalMs?: number;
+  historyMaxSize?: number; // Finished jobs remembered for getJob, default = 1000
+  historyMaxAgeMs?: number; // How long finished jobs are remembered, default = 1 hour
+  recoverRunning?: RecoverRunningAction | ((job: Job) => RecoverRunningAction); // default = 'requeue'
+  rateLimit?: RateLimit; // Shared by all queues
+  typeRateLimits?: Record<string, RateLimit>; // Per job type, shared by all queues
+  queues?: Record<string, NamedQueueOptions>; // Named queues, in addition to the `queueCount` pool queues
+  routes?: Record<string, string>; // Job type -> named queue
+  router?: (data: any, options: JobOptions) => string | undefined; // Picks a named queue (or the pool) for each job; overrides `routes`
+  strategy?: LoadBalancingStrategy | QueueSelector; // How jobs are spread over the pool queues, default = 'least-loaded'
+  queueWeights?: number[]; // Weight of each pool queue for the 'weighted' strategy, default = its concurrency
+  idempotencyWindowMs?: number; // How long the key of a completed job keeps suppressing duplicates, default = 1 hour
+  groups?: GroupConcurrencyOptions; // Concurrency per groupKey, enforced across all queues
+  autoscale?: AutoscaleOptions; // Grow and shrink the pool queues and their concurrency with the load
+  workStealing?: boolean; // Idle pool queues take pending jobs from the busiest one, default = false
 }
@@ -1,6 +1,7 @@
 import express from 'express';
 import { createQueueApiRoutes } from '../lib/ApiIntegration';
 import { QueueManager } from '../core/QueueManager';
+import { isJobPriority } from '../core/Job';
 import { createTaskConnector } from './task-connector';
 
 // Create Express app
@@ -62,9 +63,15 @@ queueManager.on('job:started', (data) => {
 
 queueManager.on('job:completed', (data) => {
   console.log(`[QUEUE] Job ${data.id} completed in ${(data.completedAt! - data.startedAt!) / 1000}s`);
+  console.log(`[QUEUE] Job result: ${JSON.stringify(data.result ?? null).substring(0, 200)}`);
   console.log(visualizeQueues());
 });
 
+queueManager.on('job:progress', (data) => {
+  const progress = typeof data.progress === 'number' ? `${data.progress}%` : JSON.stringify(data.progress);
+  console.log(`[QUEUE] Job ${data.id} progress: ${progress}`);
+});
+
 queueManager.on('job:failed', (data) => {
   console.log(`[QUEUE] Job ${data.id} failed: ${data.error?.message || 'Unknown error'}`);
   console.log(visualizeQueues());
@@ -75,6 +82,11 @@ queueManager.on('job:timeout', (data) => {
   console.log(visualizeQueues());
 });
 
+queueManager.on('job:cancelled', (data) => {
+  console.log(`[QUEUE] Job ${data.id} cancelled: ${data.error?.message}`);
+  console.log(visualizeQueues());
+});
+
 // Create and configure API routes
 const queueRoutes = createQueueApiRoutes(queueManager, {
   // Transform job data to include metadata
@@ -99,7 +111,11 @@ const queueRoutes = createQueueApiRoutes(queueManager, {
 app.use('/api/queue', queueRoutes);
 
 // Initialize the task connector that sends jobs to the external service
-const taskConnector = createTaskConnector(queueManager, 'http://localhost:3001/process');
+const taskConnector = createTaskConnector(
+  queueManager,
+  'http://localhost:3001/process',
+  'http://localhost:3001/cancel'
+);
 
 // API endpoint for processing tasks asynchronously
 app.post('/api/tasks', async (req, res) => {
@@ -110,6 +126,10 @@ app.post('/api/tasks', async (req, res) => {
       return res.status(400).json({ error: 'Missing payload' });
     }
     
+    if (priority !== undefined && !isJobPriority(priority)) {
+      return res.status(400).json({ error: `Unknown priority: ${priority}` });
+    }
+    
     console.log(`[API] Received task request: ${JSON.stringify(payload).substring(0, 100)}${JSON.stringify(payload).length > 100 ? '...' : ''}`);
     
     // Create the job data with all needed information
@@ -125,8 +145,15 @@ app.post('/api/tasks', async (req, res) => {
     console.log('[API] Queue status before adding job:');
     console.log(visualizeQueues());
     
-    // Add job to queue system
-    const jobId = await queueManager.addJob(jobData);
+    // Clients retry on network errors; the same key returns the job of the first attempt
+    const idempotencyKey = req.get('Idempotency-Key');
+    
+    // Add job to queue system (returns as soon as the job is queued)
+    const { id: jobId } = await queueManager.addJob(jobData, {
+      priority: jobData.priority,
+      timeoutMs: customTimeout,
+      idempotencyKey
+    });
     
     console.log(`[API] Added task to queue with job ID: ${jobId}`);
     
@@ -207,6 +234,13 @@ app.get('/api/status', (req, res) => {
   }
 });
 
+// Let running jobs finish before the process exits on SIGTERM/SIGINT
+queueManager.closeOnSignals({ drainTimeoutMs: 30000 });
+queueManager.on('all:closing', () => console.log('[QUEUE] Shutting down - waiting for running jobs to finish'));
+queueManager.on('all:closed', (result) => {
+  console.log(`[QUEUE] Closed (${result.drained ? 'drained' : 'drain timed out'}), ${result.failed.length} unfinished job(s) failed`);
+});
+
 // Start the server
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
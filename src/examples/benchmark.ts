@@ -0,0 +1,81 @@
+import { QueueManager } from '../';
+
+/**
+ * Compares event-driven dispatch with the legacy 100ms polling loop.
+ *
+ * Each run pushes a burst of small in-process jobs through the manager and
+ * reports throughput and the time jobs spent waiting before they started.
+ */
+
+const QUEUE_COUNT = 4;
+const CONCURRENCY_PER_QUEUE = 10;
+
+interface BenchmarkResult {
+  mode: string;
+  jobs: number;
+  totalMs: number;
+  jobsPerSecond: number;
+  waitP50Ms: number;
+  waitP99Ms: number;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+async function runBenchmark(mode: string, jobCount: number, pollIntervalMs?: number): Promise<BenchmarkResult> {
+  const queueManager = new QueueManager<number>({
+    queueCount: QUEUE_COUNT,
+    concurrencyPerQueue: CONCURRENCY_PER_QUEUE,
+    timeoutMs: 60000,
+    pollIntervalMs
+  });
+
+  const waits: number[] = [];
+  queueManager.on('job:started', (job) => {
+    waits.push(job.startedAt - job.createdAt);
+  });
+
+  // Trivial work so the measurement is dominated by queue overhead
+  queueManager.process(async (job) => job.data * 2);
+
+  const start = Date.now();
+  await Promise.all(
+    Array.from({ length: jobCount }, (_, i) => queueManager.addJob(i).then(handle => handle.finished()))
+  );
+  const totalMs = Math.max(Date.now() - start, 1);
+
+  queueManager.shutdownAllQueues();
+
+  waits.sort((a, b) => a - b);
+  return {
+    mode,
+    jobs: jobCount,
+    totalMs,
+    jobsPerSecond: Math.round(jobCount / (totalMs / 1000)),
+    waitP50Ms: percentile(waits, 0.5),
+    waitP99Ms: percentile(waits, 0.99)
+  };
+}
+
+async function main() {
+  console.log(`[BENCHMARK] ${QUEUE_COUNT} queues × ${CONCURRENCY_PER_QUEUE} concurrent jobs\n`);
+
+  const results = [
+    // Polling can start at most 40 jobs per tick, so it gets a smaller batch
+    await runBenchmark('polling (100ms)', 2000, 100),
+    await runBenchmark('event-driven', 2000),
+    await runBenchmark('event-driven', 50000)
+  ];
+
+  console.table(results);
+
+  // Single job latency on an idle system
+  for (const [mode, pollIntervalMs] of [['polling (100ms)', 100], ['event-driven', undefined]] as const) {
+    const result = await runBenchmark(mode, 1, pollIntervalMs);
+    console.log(`[BENCHMARK] ${mode}: single job on an idle queue waited ${result.waitP50Ms}ms`);
+  }
+}
+
+main().catch(console.error);
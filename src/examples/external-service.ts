@@ -130,10 +130,12 @@ async function processJobAsync(jobId: string, payload: any) {
   
   console.log(`[EXTERNAL] Processing job ${jobId} (${processingTime/1000}s)`);
   
-  // Display processing updates at intervals
+  // Display processing updates and report progress to the queue at intervals
+  const startedAt = Date.now();
   const updateInterval = setInterval(() => {
     if (activeJobs.has(jobId)) {
       console.log(visualizeActiveJobs());
+      sendProgress(jobId, Math.min(Math.round((Date.now() - startedAt) / processingTime * 100), 99));
     } else {
       clearInterval(updateInterval);
     }
@@ -145,6 +147,12 @@ async function processJobAsync(jobId: string, payload: any) {
   // Clear the update interval
   clearInterval(updateInterval);
   
+  // The queue cancelled the job while we were working on it
+  if (!activeJobs.has(jobId)) {
+    console.log(`[EXTERNAL] Job ${jobId} was cancelled - no webhook sent`);
+    return;
+  }
+  
   // Determine success/failure based on success rate
   const isSuccess = Math.random() <= CONFIG.simulationSettings.successRate;
   
@@ -188,6 +196,17 @@ async function processJobAsync(jobId: string, payload: any) {
   }
 }
 
+// Report the progress of a job to the queue through the webhook
+function sendProgress(jobId: string, percent: number) {
+  axios.post(CONFIG.webhookUrl, {
+    jobId,
+    status: 'progress',
+    progress: percent
+  }).catch(err => {
+    console.error(`[EXTERNAL] Failed to send progress for job ${jobId}: ${err instanceof Error ? err.message : String(err)}`);
+  });
+}
+
 // Generate a random error message
 function getRandomError(): string {
   const errors = [
@@ -241,6 +260,23 @@ app.post('/manual-response/:jobId', (req, res) => {
   });
 });
 
+// Endpoint to stop processing a job the queue has cancelled
+app.post('/cancel', (req, res) => {
+  const { jobId, reason } = req.body;
+  
+  if (!activeJobs.has(jobId)) {
+    return res.status(404).json({ error: `Job ${jobId} not found` });
+  }
+  
+  activeJobs.delete(jobId);
+  console.log(`[EXTERNAL] Cancelled job ${jobId}${reason ? ` (${reason})` : ''}`);
+  
+  return res.json({
+    success: true,
+    message: `Job ${jobId} cancelled`
+  });
+});
+
 // Endpoint to list all active jobs
 app.get('/active-jobs', (req, res) => {
   const jobs = Array.from(activeJobs.values());
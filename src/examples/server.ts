@@ -64,7 +64,7 @@ app.post('/api/process-something', async (req, res) => {
     }
     
     // Add to queue instead of processing immediately
-    const jobId = await queueManager.addJob({ 
+    const { id: jobId } = await queueManager.addJob({ 
       type: 'process-data',
       payload: data,
       requestedAt: new Date().toISOString(),
@@ -123,10 +123,10 @@ app.get('/api/queue-status', (req, res) => {
 // Add a demo endpoint to simulate job completion
 app.post('/api/simulate-completion/:jobId', (req, res) => {
   const { jobId } = req.params;
-  const { success = true } = req.body;
+  const { success = true, result } = req.body;
   
   if (success) {
-    queueManager.completeJob(jobId);
+    queueManager.completeJob(jobId, result);
     res.json({ message: `Job ${jobId} marked as completed` });
   } else {
     queueManager.failJob(jobId, new Error('Simulated failure'));
@@ -9,18 +9,22 @@ import { QueueManager } from '../';
  * 2. Forwarding them to the external service
  * 3. Letting the external service handle the processing
  * 4. External service will then send webhook callbacks when done
+ * 5. Telling the external service when a forwarded job is cancelled (if a cancel URL is set)
  */
 export class TaskConnector {
   private queueManager: QueueManager;
   public externalServiceUrl: string;
+  public cancelUrl?: string;
   public isRunning: boolean = false;
   
   constructor(
     queueManager: QueueManager, 
-    externalServiceUrl: string = 'http://localhost:3001/process'
+    externalServiceUrl: string = 'http://localhost:3001/process',
+    cancelUrl?: string
   ) {
     this.queueManager = queueManager;
     this.externalServiceUrl = externalServiceUrl;
+    this.cancelUrl = cancelUrl;
     
     // Set up event listeners
     this.setupEventListeners();
@@ -37,6 +41,11 @@ export class TaskConnector {
         this.queueManager.failJob(data.id, error instanceof Error ? error : new Error(String(error)));
       }
     });
+    
+    // Listen for cancelled jobs
+    this.queueManager.on('job:cancelled', (data) => {
+      this.handleJobCancelled(data);
+    });
   }
   
   /**
@@ -70,6 +79,27 @@ export class TaskConnector {
     }
   }
   
+  /**
+   * Tell the external service to stop working on a cancelled job
+   */
+  private async handleJobCancelled(data: any) {
+    // Jobs that never started were never forwarded
+    if (!this.cancelUrl || data.startedAt === undefined) return;
+    
+    try {
+      await axios.post(this.cancelUrl, {
+        jobId: data.id,
+        reason: data.error?.message
+      });
+      
+      console.log(`[CONNECTOR] Notified external service that job ${data.id} was cancelled`);
+      
+    } catch (error) {
+      // The job is cancelled either way; the service's late webhook will be ignored
+      console.error(`[CONNECTOR] Failed to notify external service about cancelled job ${data.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
   /**
    * Start the connector
    */
@@ -100,9 +130,10 @@ export class TaskConnector {
  */
 export function createTaskConnector(
   queueManager: QueueManager, 
-  externalServiceUrl?: string
+  externalServiceUrl?: string,
+  cancelUrl?: string
 ): TaskConnector {
-  const connector = new TaskConnector(queueManager, externalServiceUrl);
+  const connector = new TaskConnector(queueManager, externalServiceUrl, cancelUrl);
   connector.start();
   return connector;
 } 
\ No newline at end of file
@@ -1,12 +1,28 @@
 // Export main components
 export { QueueManager } from './core/QueueManager';
 export { Queue } from './core/Queue';
+export { DeadLetterQueue } from './core/DeadLetterQueue';
+export { RateLimiter } from './core/RateLimiter';
+export { JobGroups } from './core/JobGroups';
+export { Autoscaler } from './core/Autoscaler';
+export type { AutoscaleTarget } from './core/Autoscaler';
+export { ThreadPool } from './core/processors/ThreadPool';
+export type { ThreadPoolOptions } from './core/processors/ThreadPool';
+export { SandboxPool } from './core/processors/SandboxPool';
+export type { SandboxPoolOptions } from './core/processors/SandboxPool';
+export type { ProcessorJob } from './core/processors/messages';
+export { JOB_PRIORITIES, isJobPriority, isJobProgress, resolvePriority, serializeJob, deserializeJob } from './core/Job';
+export { FileJobStore } from './core/stores/FileJobStore';
+export type { FileJobStoreOptions } from './core/stores/FileJobStore';
+export { SqliteJobStore } from './core/stores/SqliteJobStore';
+export type { SqliteJobStoreOptions, SqliteDatabase } from './core/stores/SqliteJobStore';
 
 // Export types
 export * from './core/types';
 
 // Export API integration helpers
 export * from './lib/ApiIntegration';
+export type { WebhookCallback, JobRequest } from './lib/types';
 
 // Export examples/helpers
 export { TaskConnector, createTaskConnector } from './examples/task-connector';
@@ -1,5 +1,7 @@
 import express, { Request, Response, NextFunction, Router } from 'express';
 import { QueueManager } from '../core/QueueManager';
+import { isJobPriority, isJobProgress, serializeJob } from '../core/Job';
+import { DeadLetterEntry } from '../core/types';
 import { JobRequest, WebhookCallback } from './types';
 
 /**
@@ -21,6 +23,11 @@ export interface ApiIntegrationOptions {
    */
   webhookPath?: string;
   
+  /**
+   * Dead-letter queue path (defaults to '/dead-letter')
+   */
+  deadLetterPath?: string;
+  
   /**
    * Secret key for webhook authentication (optional)
    */
@@ -49,8 +56,8 @@ export interface ApiIntegrationOptions {
  * @param options Configuration options
  * @returns Express router with API endpoints
  */
-export function createQueueApiRoutes<T = any>(
-  queueManager: QueueManager<T>,
+export function createQueueApiRoutes<T = any, R = any>(
+  queueManager: QueueManager<T, R>,
   options: ApiIntegrationOptions = {}
 ): Router {
   const router = express.Router();
@@ -60,6 +67,7 @@ export function createQueueApiRoutes<T = any>(
     basePath = '/api/queue',
     requestPath = '/jobs',
     webhookPath = '/webhook',
+    deadLetterPath = '/dead-letter',
     webhookSecret,
     middleware = [],
     transformJobData = (data: any) => data,
@@ -86,15 +94,89 @@ export function createQueueApiRoutes<T = any>(
       // Transform data if needed
       const transformedData = transformJobData(jobRequest.data);
       
-      // Add to queue
-      const jobId = await queueManager.addJob(transformedData as T);
+      const runAt = jobRequest.runAt !== undefined ? new Date(jobRequest.runAt) : undefined;
+      if (runAt && isNaN(runAt.getTime())) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Invalid job request. runAt must be a date.' 
+        });
+      }
+      
+      if (jobRequest.priority !== undefined && !isJobPriority(jobRequest.priority)) {
+        return res.status(400).json({ 
+          success: false, 
+          error: `Invalid job request. Unknown priority: ${jobRequest.priority}` 
+        });
+      }
+      
+      const { delayMs } = jobRequest;
+      if (delayMs !== undefined && !(typeof delayMs === 'number' && Number.isFinite(delayMs) && delayMs >= 0)) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Invalid job request. delayMs must be a non-negative number.' 
+        });
+      }
+      
+      const { dependsOn } = jobRequest;
+      if (dependsOn !== undefined && (!Array.isArray(dependsOn) || dependsOn.some(id => typeof id !== 'string'))) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Invalid job request. dependsOn must be an array of job IDs.' 
+        });
+      }
+      
+      if (jobRequest.queue !== undefined && !queueManager.getNamedQueue(jobRequest.queue)) {
+        return res.status(400).json({ 
+          success: false, 
+          error: `Invalid job request. Unknown queue: ${jobRequest.queue}` 
+        });
+      }
+      
+      const unknownDependency = dependsOn?.find(id => !queueManager.getJob(id));
+      if (unknownDependency) {
+        return res.status(400).json({ 
+          success: false, 
+          error: `Invalid job request. Unknown dependency: ${unknownDependency}` 
+        });
+      }
+      
+      // A retried request returns the job its first attempt created
+      const idempotencyKey = req.get('Idempotency-Key') ?? jobRequest.idempotencyKey;
+      const existingJobId = idempotencyKey !== undefined
+        ? queueManager.getJobIdByIdempotencyKey(idempotencyKey)
+        : undefined;
+      
+      // Add to queue (resolves once queued, not when the job finishes)
+      const handle = await queueManager.addJob(transformedData as T, {
+        type: jobRequest.type,
+        queue: jobRequest.queue,
+        routingKey: jobRequest.routingKey,
+        idempotencyKey,
+        groupKey: jobRequest.groupKey,
+        timeoutMs: jobRequest.timeoutMs,
+        priority: jobRequest.priority,
+        delayMs,
+        runAt,
+        dependsOn,
+        onDependencyFailure: jobRequest.onDependencyFailure
+      });
+      
+      if (handle.id === existingJobId) {
+        return res.status(200).json({
+          success: true,
+          jobId: handle.id,
+          message: 'Job already submitted',
+          status: handle.status(),
+          duplicate: true
+        });
+      }
       
       // Return job ID and status
       return res.status(201).json({
         success: true,
-        jobId,
+        jobId: handle.id,
         message: 'Job added to queue',
-        status: 'pending'
+        status: handle.status()
       });
       
     } catch (error) {
@@ -117,7 +199,7 @@ export function createQueueApiRoutes<T = any>(
         });
       }
       
-      const callback = req.body as WebhookCallback;
+      const callback = req.body as WebhookCallback<R>;
       
       if (!callback || !callback.jobId) {
         return res.status(400).json({ 
@@ -126,9 +208,38 @@ export function createQueueApiRoutes<T = any>(
         });
       }
       
+      // Progress updates leave the job running
+      if (callback.status === 'progress') {
+        if (callback.progress === undefined) {
+          return res.status(400).json({ 
+            success: false, 
+            error: 'Invalid progress callback. Missing progress.' 
+          });
+        }
+        
+        if (!isJobProgress(callback.progress)) {
+          return res.status(400).json({ 
+            success: false, 
+            error: 'Invalid progress callback. progress must be a percentage between 0 and 100 or an object.' 
+          });
+        }
+        
+        if (!queueManager.reportProgress(callback.jobId, callback.progress)) {
+          return res.status(404).json({ 
+            success: false, 
+            error: `Job ${callback.jobId} is not running` 
+          });
+        }
+        
+        return res.status(200).json({
+          success: true,
+          message: `Job ${callback.jobId} progress updated`
+        });
+      }
+      
       // Handle job completion/failure based on status
       if (callback.status === 'success') {
-        queueManager.completeJob(callback.jobId);
+        queueManager.completeJob(callback.jobId, callback.data);
       } else {
         const error = callback.error ? new Error(callback.error) : undefined;
         queueManager.failJob(callback.jobId, error);
@@ -168,9 +279,177 @@ export function createQueueApiRoutes<T = any>(
     }
   });
   
+  // Route for looking up a single job
+  router.get(`${requestPath}/:jobId`, (req: Request, res: Response) => {
+    const job = queueManager.getJob(req.params.jobId);
+    
+    if (!job) {
+      return res.status(404).json({ 
+        success: false, 
+        error: `Job ${req.params.jobId} not found` 
+      });
+    }
+    
+    const { queueIndex, ...rest } = job;
+    return res.status(200).json({
+      success: true,
+      job: { ...serializeJob(rest), queueIndex }
+    });
+  });
+  
+  // Route for fetching the result of a job
+  router.get(`${requestPath}/:jobId/result`, (req: Request, res: Response) => {
+    const job = queueManager.getJob(req.params.jobId);
+    
+    if (!job) {
+      return res.status(404).json({ 
+        success: false, 
+        error: `Job ${req.params.jobId} not found` 
+      });
+    }
+    
+    if (job.status === 'completed') {
+      return res.status(200).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        result: job.result
+      });
+    }
+    
+    if (job.status === 'failed' || job.status === 'timed_out' || job.status === 'cancelled') {
+      return res.status(200).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        error: job.error?.message
+      });
+    }
+    
+    // Not finished yet
+    return res.status(202).json({
+      success: true,
+      jobId: job.id,
+      status: job.status
+    });
+  });
+  
+  // Route for cancelling a delayed, pending or running job
+  router.delete(`${requestPath}/:jobId`, (req: Request, res: Response) => {
+    const reason = (req.body?.reason ?? req.query.reason) as string | undefined;
+    
+    if (queueManager.cancelJob(req.params.jobId, reason)) {
+      return res.status(200).json({
+        success: true,
+        message: `Job ${req.params.jobId} cancelled`
+      });
+    }
+    
+    const job = queueManager.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ 
+        success: false, 
+        error: `Job ${req.params.jobId} not found` 
+      });
+    }
+    
+    return res.status(409).json({ 
+      success: false, 
+      error: `Job ${req.params.jobId} has already finished (${job.status})` 
+    });
+  });
+  
+  // Route for listing dead-lettered jobs
+  router.get(deadLetterPath, (req: Request, res: Response) => {
+    try {
+      const offset = Number(req.query.offset) || 0;
+      const limit = Number(req.query.limit) || 100;
+      const jobs = queueManager.getDeadLetterJobs(offset, limit);
+      
+      return res.status(200).json({
+        success: true,
+        jobs: jobs.map(serializeDeadLetterEntry),
+        offset,
+        limit
+      });
+      
+    } catch (error) {
+      console.error('Error listing dead-letter jobs:', error);
+      return res.status(500).json({ 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+    }
+  });
+  
+  // Route for inspecting a single dead-lettered job
+  router.get(`${deadLetterPath}/:jobId`, (req: Request, res: Response) => {
+    const entry = queueManager.getDeadLetterJob(req.params.jobId);
+    
+    if (!entry) {
+      return res.status(404).json({ 
+        success: false, 
+        error: `Job ${req.params.jobId} not found in dead-letter queue` 
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      job: serializeDeadLetterEntry(entry)
+    });
+  });
+  
+  // Route for redriving dead-lettered jobs back into the queues
+  router.post(`${deadLetterPath}/redrive`, (req: Request, res: Response) => {
+    try {
+      const { jobIds } = (req.body || {}) as { jobIds?: string[] };
+      
+      if (jobIds !== undefined && !Array.isArray(jobIds)) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Invalid redrive request. jobIds must be an array.' 
+        });
+      }
+      
+      const redriven = queueManager.redriveDeadLetterJobs(jobIds);
+      
+      return res.status(200).json({
+        success: true,
+        redriven,
+        message: `${redriven.length} job(s) redriven`
+      });
+      
+    } catch (error) {
+      console.error('Error redriving dead-letter jobs:', error);
+      return res.status(500).json({ 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+    }
+  });
+  
+  // Route for discarding a dead-lettered job
+  router.delete(`${deadLetterPath}/:jobId`, (req: Request, res: Response) => {
+    if (!queueManager.removeDeadLetterJob(req.params.jobId)) {
+      return res.status(404).json({ 
+        success: false, 
+        error: `Job ${req.params.jobId} not found in dead-letter queue` 
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: `Job ${req.params.jobId} removed from dead-letter queue`
+    });
+  });
+  
   return router;
 }
 
+function serializeDeadLetterEntry(entry: DeadLetterEntry) {
+  return { ...entry, job: serializeJob(entry.job) };
+}
+
 /**
  * Creates a webhook handler middleware for the queue manager
  * 
@@ -178,8 +457,8 @@ export function createQueueApiRoutes<T = any>(
  * @param secret Optional secret key for authentication
  * @returns Express middleware for handling webhooks
  */
-export function createWebhookHandler<T = any>(
-  queueManager: QueueManager<T>,
+export function createWebhookHandler<T = any, R = any>(
+  queueManager: QueueManager<T, R>,
   secret?: string
 ): (req: Request, res: Response, next: NextFunction) => void {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -195,7 +474,7 @@ export function createWebhookHandler<T = any>(
     }
     
     try {
-      const callback = req.body as WebhookCallback;
+      const callback = req.body as WebhookCallback<R>;
       
       if (!callback || !callback.jobId) {
         return res.status(400).json({ 
@@ -204,9 +483,38 @@ export function createWebhookHandler<T = any>(
         });
       }
       
+      // Progress updates leave the job running
+      if (callback.status === 'progress') {
+        if (callback.progress === undefined) {
+          return res.status(400).json({ 
+            success: false, 
+            error: 'Invalid progress callback. Missing progress.' 
+          });
+        }
+        
+        if (!isJobProgress(callback.progress)) {
+          return res.status(400).json({ 
+            success: false, 
+            error: 'Invalid progress callback. progress must be a percentage between 0 and 100 or an object.' 
+          });
+        }
+        
+        if (!queueManager.reportProgress(callback.jobId, callback.progress)) {
+          return res.status(404).json({ 
+            success: false, 
+            error: `Job ${callback.jobId} is not running` 
+          });
+        }
+        
+        return res.status(200).json({
+          success: true,
+          message: `Job ${callback.jobId} progress updated`
+        });
+      }
+      
       // Handle job completion/failure based on status
       if (callback.status === 'success') {
-        queueManager.completeJob(callback.jobId);
+        queueManager.completeJob(callback.jobId, callback.data);
       } else {
         const error = callback.error ? new Error(callback.error) : undefined;
         queueManager.failJob(callback.jobId, error);
@@ -1,3 +1,5 @@
+import { DependencyFailureAction, JobPriorityLevel, JobProgress } from '../core/types';
+
 export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'timed_out';
 
 export interface Job<T = any> {
@@ -28,14 +30,25 @@ export interface ManagerOptions {
 }
 
 // Request and Webhook handling types
-export interface WebhookCallback {
+export interface WebhookCallback<R = any> {
   jobId: string;
-  status: 'success' | 'failed';
-  data?: any;
+  status: 'success' | 'failed' | 'progress';
+  data?: R; // Result of the job, stored on it when status is 'success'
   error?: string;
+  progress?: JobProgress; // Percentage (0-100) or details, when status is 'progress'
 }
 
 export interface JobRequest<T = any> {
   data: T;
+  type?: string;
+  queue?: string; // Named queue, instead of routing by type
+  routingKey?: string; // Keeps jobs with the same key on one queue (consistent-hash strategy)
+  idempotencyKey?: string; // Same as the Idempotency-Key header, which takes precedence
+  groupKey?: string; // Jobs with the same key run one at a time, in order
   timeoutMs?: number;
+  priority?: JobPriorityLevel | number;
+  delayMs?: number;
+  runAt?: string | number; // ISO date string or epoch milliseconds
+  dependsOn?: string[]; // IDs of jobs that must finish first
+  onDependencyFailure?: DependencyFailureAction;
 } 
\ No newline at end of file
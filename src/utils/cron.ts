@@ -0,0 +1,218 @@
+/**
+ * Minimal cron expression support for recurring jobs.
+ *
+ * Supports the standard 5-field syntax (minute hour day-of-month month day-of-week)
+ * with lists, ranges, steps, month/day names and the usual @-macros.
+ * Times are matched against the wall clock of the given IANA timezone.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron semantics: when both day fields are restricted, either may match
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Give up looking for a matching time after this many years (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(value: string, min: number, names?: string[]): number {
+  const lower = value.toLowerCase();
+  if (names && names.includes(lower)) {
+    return names.indexOf(lower) + min;
+  }
+
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || isNaN(parsed)) {
+    throw new Error(`Invalid cron value: ${value}`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, min, names);
+      end = parseValue(to, min, names);
+    } else {
+      start = parseValue(range, min, names);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field out of range: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  // 7 is an alias for Sunday
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    source,
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*' || dayOfMonth.startsWith('*/'),
+    anyDayOfWeek: dayOfWeek === '*' || dayOfWeek.startsWith('*/')
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the wall-clock time of an instant in the timezone, encoded as a UTC timestamp
+ */
+function toWallClock(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Converts a wall-clock time back into an instant, or returns undefined when
+ * that time does not exist in the timezone (skipped by a DST change)
+ */
+function fromWallClock(wall: number, timezone: string): number | undefined {
+  const offset = toWallClock(wall, timezone) - wall;
+  let instant = wall - offset;
+
+  // The offset may differ on the other side of a DST change
+  const correctedOffset = toWallClock(instant, timezone) - instant;
+  instant = wall - correctedOffset;
+
+  return toWallClock(instant, timezone) === wall ? instant : undefined;
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Finds the first time strictly after `after` that matches the expression
+ *
+ * @param timezone IANA timezone name (defaults to the process timezone)
+ */
+export function getNextCronTime(
+  cron: CronExpression,
+  after: number = Date.now(),
+  timezone: string = Intl.DateTimeFormat().resolvedOptions().timeZone
+): number {
+  // Work on wall-clock time encoded as UTC, starting at the next whole minute
+  const date = new Date(toWallClock(after, timezone));
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+
+    const instant = fromWallClock(date.getTime(), timezone);
+    if (instant !== undefined && instant > after) {
+      return instant;
+    }
+
+    // Skipped by a DST change (or repeated wall time already passed)
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+  }
+
+  throw new Error(`Cron expression "${cron.source}" has no matching time in the next ${MAX_SEARCH_YEARS} years`);
+}